@@ -2,6 +2,7 @@ import * as React from 'react';
 import jss from 'jss';
 import pageComponent from './Page';
 import { parser } from './';
+import { LoaderContext } from '../../src';
 
 
 /// Currency
@@ -79,8 +80,8 @@ export interface State {
 @pageComponent()
 class CountryPage extends React.Component<Props, State> {
 
-  static initData(route: Props['route']): Promise<Data> {
-    return fetch('https://restcountries.eu/rest/v2/alpha/' + encodeURIComponent(route.code)).then(r => r.json());
+  static initData(route: Props['route'], { signal }: LoaderContext<Data>): Promise<Data> {
+    return fetch('https://restcountries.eu/rest/v2/alpha/' + encodeURIComponent(route.code), { signal }).then(r => r.json());
   }
 
   renderGoogleMapLink(latLng: [number, number]) {
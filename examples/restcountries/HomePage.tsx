@@ -2,6 +2,7 @@ import * as React from 'react';
 import jss from 'jss';
 import { parser } from './';
 import pageComponent from './Page';
+import { LoaderContext } from '../../src';
 const readme = require('./README.md');
 
 
@@ -26,7 +27,7 @@ export interface State {
 @pageComponent()
 class HomePage extends React.Component<Props, State> {
 
-  static initData(route: Props['route']): Promise<Data> {
+  static initData(route: Props['route'], context: LoaderContext<Data>): Promise<Data> {
     return Promise.resolve(null);
   }
 
@@ -2,6 +2,7 @@ import * as React from 'react';
 import jss from 'jss';
 import Menu from './Menu';
 import Search from './Search';
+import { LoaderContext } from '../../src';
 
 
 /// props constraints
@@ -13,7 +14,7 @@ export interface RouteProps {
 
 /// component that handles particular route
 export type RouteComponent<P extends RouteProps> = React.ReactType<P> & {
-  initData(route: P['route'], data?: P['data']): Promise<P['data']>;
+  initData(route: P['route'], context: LoaderContext<P['data']>): Promise<P['data']>;
 }
 
 
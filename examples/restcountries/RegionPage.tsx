@@ -3,6 +3,7 @@ import jss from 'jss';
 import { Country } from './CountryPage';
 import { parser } from './';
 import pageComponent from './Page';
+import { LoaderContext } from '../../src';
 import { CountryListItem, CountryBrief } from './SearchPage';
 
 
@@ -26,9 +27,9 @@ export interface State {
 @pageComponent()
 class RegionPage extends React.Component<Props, State> {
 
-  static initData(route: Props['route']): Promise<Data> {
+  static initData(route: Props['route'], { signal }: LoaderContext<Data>): Promise<Data> {
     const url = `https://restcountries.eu/rest/v2/region/${encodeURIComponent(route.region)}?fields=name;alpha3Code;altSpellings;nativeName`;
-    return fetch(url).then(r => r.ok ? r.json() : []);
+    return fetch(url, { signal }).then(r => r.ok ? r.json() : []);
   }
 
   render() {
@@ -3,6 +3,7 @@ import jss from 'jss';
 import { Country } from './CountryPage';
 import { parser } from './';
 import pageComponent from './Page';
+import { LoaderContext } from '../../src';
 
 
 /// Data
@@ -26,10 +27,10 @@ export interface State {
 @pageComponent((props: Props) => props.route.search)
 class SearchPage extends React.Component<Props, State> {
 
-  static initData(route: Props['route']): Promise<Data> {
+  static initData(route: Props['route'], { signal }: LoaderContext<Data>): Promise<Data> {
     if (route.search === '') return Promise.resolve([]);
     const url = `https://restcountries.eu/rest/v2/name/${encodeURIComponent(route.search)}?fields=name;alpha3Code;altSpellings;nativeName`;
-    return fetch(url).then(r => r.ok ? r.json() : []);
+    return fetch(url, { signal }).then(r => r.ok ? r.json() : []);
   }
 
   render() {
@@ -1,7 +1,6 @@
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
 import * as r from '../../src';
-import { Parser } from '../../src';
 import jss from 'jss'
 import preset from 'jss-preset-default'
 jss.setup(preset());
@@ -13,12 +12,12 @@ import CountryPage from './CountryPage';
 import RegionPage from './RegionPage';
 
 
-/// declare all possible routes
+/// declare all possible routes, `loader` fetches the data for the page
 export const parser = r.oneOf(
-  r.tag('Home').extra({ component: HomePage }),
-  r.tag('Country').path('/countries').segment('code', r.nestring).extra({ component: CountryPage }),
-  r.tag('Search').path('/countries').params({ search: r.string.withDefault('') }).extra({ component: SearchPage }),
-  r.tag('Region').path('/region').segment('region', r.literals('Africa', 'Americas', 'Asia', 'Europe', 'Oceania')).extra({ component: RegionPage }),
+  r.tag('Home').extra({ component: HomePage, loader: HomePage.initData }),
+  r.tag('Country').path('/countries').segment('code', r.nestring).extra({ component: CountryPage, loader: CountryPage.initData }),
+  r.tag('Search').path('/countries').params({ search: r.string.withDefault('') }).extra({ component: SearchPage, loader: SearchPage.initData }),
+  r.tag('Region').path('/region').segment('region', r.literals('Africa', 'Americas', 'Asia', 'Europe', 'Oceania')).extra({ component: RegionPage, loader: RegionPage.initData }),
 );
 
 
@@ -27,29 +26,25 @@ export type RouteOut = typeof parser['_O'];
 export type RouteIn = typeof parser['_I'];
 
 
-/// state
-interface State {
-  pending: boolean;
-  page: null | { route: RouteOut, data: any };
-}
+/// router and data loader, loads superseded by quick clicks are aborted
+const notFoundRoute: RouteOut = { tag: 'Home', component: HomePage, loader: HomePage.initData };
+export const router = r.createRouter(parser, { fallback: notFoundRoute });
+const loader = r.createLoader(parser);
 
 
 /// component
-class Root extends React.Component<{}, State> {
-  state: State = { pending: true, page: null };
-  
+class Root extends React.Component<{}, r.LoaderState<RouteOut, any>> {
+  state = loader.state();
+  unsubscribe: Array<() => void> = [];
+
   componentDidMount() {
-    this.routeTransition();
-    window.onpopstate = this.routeTransition;
+    this.unsubscribe.push(loader.subscribe(state => this.setState(state)));
+    this.unsubscribe.push(router.subscribe(route => loader.load(route)));
+    loader.load(router.current());
   }
 
-  routeTransition = () => {
-    const notFoundRoute: RouteOut = { tag: 'Home', component: HomePage };
-    const route = parser.parse(location.hash.slice(1)) || notFoundRoute;
-    const component = route.component as any;
-    this.setState({ pending: true });
-    const prevData = this.state.page && this.state.page.route.tag === route.tag ? this.state.page.data : undefined;
-    component.initData(route, prevData).then(data => this.setState({ pending: false, page: { route, data } }));
+  componentWillUnmount() {
+    this.unsubscribe.splice(0).forEach(f => f());
   }
 
   renderPendingOverlay() {
@@ -59,11 +54,11 @@ class Root extends React.Component<{}, State> {
   }
 
   render() {
-    const { pending, page } = this.state;
-    const Page = page ? page.route.component as any : undefined;
+    const { loaded, pending } = this.state;
+    const Page = loaded ? loaded.route.component as any : undefined;
     return (
       <div className={classes.root}>
-	{Page && page && <Page data={page.data} route={page.route}/>}
+	{Page && loaded && <Page data={loaded.data} route={loaded.route}/>}
 	{pending && this.renderPendingOverlay()}
       </div>
     );
@@ -15,6 +15,10 @@ const parser = r.oneOf(
 type Route = typeof parser['_O'];
 
 
+/// router
+const router = r.createRouter(parser, { fallback: { tag: 'Page404' } });
+
+
 /// state
 interface State {
   history: Route[];
@@ -25,19 +29,23 @@ interface State {
 class Root extends React.Component<{}, State> {
   state: State = { history: [] };
 
+  unsubscribe?: () => void;
+
   componentDidMount() {
-    this.routeTransition();
-    window.onpopstate = this.routeTransition;
+    this.routeTransition(router.current());
+    this.unsubscribe = router.subscribe(this.routeTransition);
+  }
+
+  componentWillUnmount() {
+    if (this.unsubscribe) this.unsubscribe();
   }
 
-  routeTransition = () => {
-    const notFoundRoute: Route = { tag: 'Page404' };
-    const route = parser.parse(location.hash.slice(1)) || notFoundRoute;
+  routeTransition = (route: Route) => {
     this.setState({ history: this.state.history.concat(route) });
   }
 
   makeLink(route: Route) {
-    return <React.Fragment><a href={'#' + parser.print(route)}>{parser.print(route)}</a> <code>{JSON.stringify(route)}</code></React.Fragment>;
+    return <React.Fragment><a href={router.href(route)}>{parser.print(route)}</a> <code>{JSON.stringify(route)}</code></React.Fragment>;
   }
 
   render() {
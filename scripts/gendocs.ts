@@ -86,7 +86,7 @@ export function generateDocs(fileNames: string[], options: ts.CompilerOptions) {
       name: symbol.getName(),
 
       documentation: ts.displayPartsToString(symbol.getDocumentationComment(checker)).replace(/\n\s*\* /g, '\n'),
-      signatures: functionType.getCallSignatures().map(x => checker.signatureToString(x, node, ts.TypeFormatFlags.NoTruncation)),
+      signatures: functionType.getCallSignatures().map(x => printSignature(x, node)),
     };
   }
 
@@ -109,10 +109,15 @@ export function generateDocs(fileNames: string[], options: ts.CompilerOptions) {
       parent: parent.getName(),
       name: symbol.getName(),
       documentation: ts.displayPartsToString(symbol.getDocumentationComment(checker)).replace(/\n\s*\* /g, '\n'),
-      signatures: functionType.getCallSignatures().map(x => checker.signatureToString(x, undefined, ts.TypeFormatFlags.NoTruncation)),
+      signatures: functionType.getCallSignatures().map(x => printSignature(x)),
     };
   }
 
+  /** Types not imported in the module of the declaration are qualified with `import("/absolute/path")` **/
+  function printSignature(signature: ts.Signature, node?: ts.Node): string {
+    return checker.signatureToString(signature, node, ts.TypeFormatFlags.NoTruncation).replace(/import\("[^"]*"\)\./g, '');
+  }
+
 }
 
 
@@ -168,7 +173,7 @@ function generateMarkdown(docs: Docs, files: string[] = Object.keys(docs)): stri
   }
 }
 
-const priority = ['src/parser.ts', 'src/adapter.ts', 'src/option.ts'];
+const priority = ['src/parser.ts', 'src/adapter.ts', 'src/option.ts', 'src/testing.ts', 'src/sitemap.ts', 'src/patterns.ts', 'src/server.ts', 'src/router.ts', 'src/loader.ts'];
 const fileNames = process.argv.slice(2);
 const docEntries = generateDocs(fileNames, { target: ts.ScriptTarget.ES5, module: ts.ModuleKind.CommonJS });
 
@@ -1,5 +1,5 @@
 import { Expr, absurd } from './internal/types';
-import { Option, some, none, traverse, None } from './option';
+import { Option, some, none, traverse, None, Some } from './option';
 import isEqual from './internal/isequal';
 
 
@@ -22,9 +22,16 @@ export type Adapter<A, F={}> =
   | NamedAdapter<A, F>   // { _adapter: Adapter<A, any>, _name: string }
   | DimapAdapter<A, F>   // { _map: (x: B) => A, _comap: (x: A) => B, _adapter: Adapter<B, F> }
   | HasAdapter<A, F>     // { toAdapter(): Adapter<A, F> }
+  | RepeatedAdapter<A, F> // { _adapter: Adapter<B, any> } where A ~ B[]
+  | ArrayAdapter<A, F>   // { _adapter: Adapter<B, any> } where A ~ B[]
+  | LiteralsAdapter<A, F> // { _literals: string[] }
   ;
 
 
+// String normalization used for case-insensitive matching
+export type Normalize = (s: string) => string;
+
+
 // Type-level flags
 export type Flags = {
   hasDefault: true;
@@ -38,9 +45,11 @@ export class AdapterBase<A, F={}> {
   readonly _F: F;
 
   /**
-   * Try to match a string to a value of type `A`
+   * Try to match a string to a value of type `A`. Optional
+   * `normalize` is applied to both sides when comparing the string
+   * with `literals`
    */
-  apply(s: string): Option<A> {
+  apply(s: string, normalize?: Normalize): Option<A> {
     const self = this as any as Adapter<A, F>;
     
     if (self instanceof CustomAdapter) {
@@ -48,19 +57,34 @@ export class AdapterBase<A, F={}> {
     }
 
     if (self instanceof NamedAdapter) {
-      return self._adapter.apply(s);
+      return self._adapter.apply(s, normalize);
     }
 
     if (self instanceof DefaultAdapter) {
-      return self._adapter.apply(s);
+      return self._adapter.apply(s, normalize);
     }
 
     if (self instanceof DimapAdapter) {
-      return self._adapter.apply(s).map(self._map);
+      return self._adapter.apply(s, normalize).map(self._map);
     }
 
     if (self instanceof HasAdapter) {
-      return self.toAdapter().apply(s);
+      return self.toAdapter().apply(s, normalize);
+    }
+
+    if (self instanceof RepeatedAdapter) {
+      return self.applyMany([s], normalize);
+    }
+
+    if (self instanceof ArrayAdapter) {
+      return traverse(parseCsv(s), x => self._adapter.apply(x, normalize)) as any as Option<A>;
+    }
+
+    if (self instanceof LiteralsAdapter) {
+      const str = normalize ? normalize(s) : s;
+      // Values from `literals(array)` are not necessarily strings
+      for (const literal of self._literals) if ((normalize && typeof(literal) === 'string' ? normalize(literal) : literal) === str) return some(literal as any as A);
+      return none;
     }
 
     return absurd(self);
@@ -91,6 +115,19 @@ export class AdapterBase<A, F={}> {
     if (self instanceof HasAdapter) {
       return self.toAdapter().unapply(a);
     }
+
+    if (self instanceof RepeatedAdapter) {
+      const values = self.unapplyMany(a);
+      return values.length ? values[0] : '';
+    }
+
+    if (self instanceof ArrayAdapter) {
+      return printCsv((a as any as any[]).map(x => self._adapter.unapply(x)));
+    }
+
+    if (self instanceof LiteralsAdapter) {
+      return a as any as string;
+    }
     
     return absurd(self);    
   }
@@ -99,7 +136,7 @@ export class AdapterBase<A, F={}> {
    * Similar to `apply` but also handles lack of the input (when the
    * key doesn't exist in query parameters)
    */
-  applyOption(s: Option<string>): Option<A> {
+  applyOption(s: Option<string>, normalize?: Normalize): Option<A> {
     const self = this as any as Adapter<A, F>;
     
     if (self instanceof CustomAdapter) {
@@ -107,19 +144,31 @@ export class AdapterBase<A, F={}> {
     }
 
     if (self instanceof NamedAdapter) {
-      return self._adapter.applyOption(s);
+      return self._adapter.applyOption(s, normalize);
     }
 
     if (self instanceof DefaultAdapter) {
-      return s instanceof None ? some(self._default) : self._adapter.applyOption(s);
+      return s instanceof None ? some(self._default) : self._adapter.applyOption(s, normalize);
     }
 
     if (self instanceof DimapAdapter) {
-      return self._adapter.applyOption(s).map(self._map);
+      return self._adapter.applyOption(s, normalize).map(self._map);
     }
 
     if (self instanceof HasAdapter) {
-      return self.toAdapter().applyOption(s);
+      return self.toAdapter().applyOption(s, normalize);
+    }
+
+    if (self instanceof RepeatedAdapter) {
+      return self.applyMany(s instanceof Some ? [s.value] : [], normalize);
+    }
+
+    if (self instanceof ArrayAdapter) {
+      return s.chain(x => self.apply(x, normalize));
+    }
+
+    if (self instanceof LiteralsAdapter) {
+      return s.chain(x => self.apply(x, normalize));
     }
 
     return absurd(self);
@@ -152,8 +201,105 @@ export class AdapterBase<A, F={}> {
       return self.toAdapter().unapplyOption(a);
     }
 
+    if (self instanceof RepeatedAdapter) {
+      const values = self.unapplyMany(a);
+      return values.length ? some(values[0]) : none;
+    }
+
+    if (self instanceof ArrayAdapter) {
+      return some(self.unapply(a));
+    }
+
+    if (self instanceof LiteralsAdapter) {
+      return some(a as any as string);
+    }
+
     return absurd(self);    
   }
+
+  /**
+   * Similar to `applyOption` but receives all values of a query
+   * parameter that occurs multiple times. Adapters other than
+   * `repeated` use the last value
+   */
+  applyMany(ss: string[], normalize?: Normalize): Option<A> {
+    const self = this as any as Adapter<A, F>;
+    
+    if (self instanceof CustomAdapter) {
+      return ss.length ? self._apply(ss[ss.length - 1]) : none;
+    }
+
+    if (self instanceof NamedAdapter) {
+      return self._adapter.applyMany(ss, normalize);
+    }
+
+    if (self instanceof DefaultAdapter) {
+      return ss.length === 0 ? some(self._default) : self._adapter.applyMany(ss, normalize);
+    }
+
+    if (self instanceof DimapAdapter) {
+      return self._adapter.applyMany(ss, normalize).map(self._map);
+    }
+
+    if (self instanceof HasAdapter) {
+      return self.toAdapter().applyMany(ss, normalize);
+    }
+
+    if (self instanceof RepeatedAdapter) {
+      return traverse(ss, s => self._adapter.apply(s, normalize)) as any as Option<A>;
+    }
+
+    if (self instanceof ArrayAdapter) {
+      return ss.length ? self.apply(ss[ss.length - 1], normalize) : none;
+    }
+
+    if (self instanceof LiteralsAdapter) {
+      return ss.length ? self.apply(ss[ss.length - 1], normalize) : none;
+    }
+
+    return absurd(self);
+  }
+
+  /**
+   * Inverse of `applyMany`
+   */
+  unapplyMany(a: A): string[] {
+    const self = this as any as Adapter<A, F>;
+    
+    if (self instanceof CustomAdapter) {
+      return [self._unapply(a)];
+    }
+
+    if (self instanceof NamedAdapter) {
+      return self._adapter.unapplyMany(a);
+    }
+
+    if (self instanceof DefaultAdapter) {
+      return isEqual(a, self._default) ? [] : self._adapter.unapplyMany(a);
+    }
+
+    if (self instanceof DimapAdapter) {
+      return self._adapter.unapplyMany(self._comap(a));
+    }
+
+    if (self instanceof HasAdapter) {
+      return self.toAdapter().unapplyMany(a);
+    }
+
+    if (self instanceof RepeatedAdapter) {
+      return (a as any as any[]).map(x => self._adapter.unapply(x));
+    }
+
+    if (self instanceof ArrayAdapter) {
+      return [self.unapply(a)];
+    }
+
+    if (self instanceof LiteralsAdapter) {
+      return [a as any as string];
+    }
+
+    return absurd(self);
+  }
   
 
   /**
@@ -241,6 +387,26 @@ export abstract class HasAdapter<A, F={}> extends AdapterBase<A, F> {
 }
 
 
+export class RepeatedAdapter<A, F={}, B=any> extends AdapterBase<A, F> {
+  constructor(
+    readonly _adapter: Adapter<B, any>,
+  ) { super(); }
+}
+
+
+export class ArrayAdapter<A, F={}, B=any> extends AdapterBase<A, F> {
+  readonly _adapter: Adapter<B, any>;
+  constructor(adapter: Adapter<B, any>) { super(); this._adapter = adapter; }
+}
+
+
+export class LiteralsAdapter<A, F={}> extends AdapterBase<A, F> {
+  constructor(
+    readonly _literals: string[],
+  ) { super(); }
+}
+
+
 /** Strings */
 const stringAdapter = new CustomAdapter<string, {}>(some, x => x);
 export { stringAdapter as string };
@@ -296,11 +462,24 @@ export { booleanAdapter as boolean };
  * console.log(parser.print({ statuses: ['pending', 'scheduled'] })); // => "todos?statuses=pending,scheduled"
  * ```
  */
-export function array<A>(adapter: Adapter<A, any>): CustomAdapter<A[], {}> {
-  return new CustomAdapter<A[]>(
-    str => traverse(parseCsv(str), x => adapter.apply(x)), 
-    xs => printCsv(xs.map(x => adapter.unapply(x))),
-  );
+export function array<A>(adapter: Adapter<A, any>): ArrayAdapter<A[], {}, A> {
+  return new ArrayAdapter<A[], {}, A>(adapter);
+}
+
+
+/**
+ * List of values stored in a query parameter repeated multiple
+ * times. Missing parameter is parsed as an empty list
+ * 
+ * ```ts
+ * const parser = r.path('/posts').params({ tags: r.repeated(r.nestring) });
+ * type Route = typeof parser['_O']; // { tags: string[] }
+ * console.log(parser.parse('/posts?tags=art&tags=music')); // => { tags: ["art", "music"] }
+ * console.log(parser.print({ tags: ['art', 'music'] })); // => "posts?tags=art&tags=music"
+ * ```
+ */
+export function repeated<A>(adapter: Adapter<A, any>): RepeatedAdapter<A[], {}, A> {
+  return new RepeatedAdapter<A[], {}, A>(adapter);
 }
 
 
@@ -320,12 +499,7 @@ export function literals<A extends string[]>(...a: A): Adapter<A>;
 export function literals<array extends Array<Expr>>(array: array): Adapter<array[number]>;
 export function literals(): Adapter<string> {
   const literals: ArrayLike<string> = Array.isArray(arguments[0]) ? arguments[0] : arguments;
-  const apply = str => {
-    for (let i = 0; i < literals.length; i++) if (literals[i] === str) return some(str);
-    return none;
-  };
-  const unapply = x => x;
-  return new CustomAdapter(apply, unapply);
+  return new LiteralsAdapter<string>(Array.prototype.slice.call(literals));
 }
 
 
@@ -1,10 +1,26 @@
 export {
   Parser,
+  ParseOptions,
+  LintIssue,
+  PrintFailure,
+  PrintResult,
+  compile,
   custom,
   extra,
+  fragment,
+  group,
+  host,
+  lint,
+  matrix,
   oneOf,
   params,
   path,
+  port,
+  priority,
+  optionalSegment,
+  rest,
+  route,
+  scheme,
   segment,
   embed,
   tag,
@@ -20,6 +36,9 @@ export {
   NamedAdapter,
   CustomAdapter,
   HasAdapter,
+  RepeatedAdapter,
+  ArrayAdapter,
+  LiteralsAdapter,
   array,
   boolean,
   date,
@@ -28,6 +47,7 @@ export {
   nat,
   nestring,
   of,
+  repeated,
   string,
 } from './adapter';
 
@@ -44,3 +64,64 @@ export {
 
 import * as option from './option';
 export { option as option };
+
+
+export {
+  Gen,
+  checkRoundTrip,
+  genAdapter,
+  genRoute,
+} from './testing';
+
+import * as testing from './testing';
+export { testing as testing };
+
+
+export {
+  ValueProviders,
+  enumerate,
+  enumerateRoutes,
+  sitemap,
+} from './sitemap';
+
+
+export {
+  PatternDialect,
+  QuerySpec,
+  RoutePattern,
+  toPatterns,
+} from './patterns';
+
+
+export {
+  HandlerOptions,
+  Handlers,
+  RequestHandler,
+  ServerRequest,
+  ServerResponse,
+  createHandler,
+} from './server';
+
+
+export {
+  Guard,
+  GuardResult,
+  History,
+  MemoryHistory,
+  Router,
+  RouterOptions,
+  createBrowserHistory,
+  createMemoryHistory,
+  createRouter,
+} from './router';
+
+
+export {
+  Loader,
+  LoaderContext,
+  LoaderOptions,
+  LoaderRunner,
+  LoaderState,
+  Loaders,
+  createLoader,
+} from './loader';
@@ -0,0 +1,93 @@
+import { Parser, PrimitiveParser, Host } from '../parser';
+import { Adapter, CustomAdapter, NamedAdapter, DimapAdapter, DefaultAdapter, HasAdapter, RepeatedAdapter, ArrayAdapter, LiteralsAdapter, nestring } from '../adapter';
+import { some, none, Option } from '../option';
+import makeIterator from './parser-iterator';
+import { absurd } from './types';
+
+
+/**
+ * Cartesian product of the contributions of each parser in the
+ * sequence, e.g. all routes or all url patterns of a parser with
+ * nested `oneOf`s. `choices` receives the result accumulated from
+ * the parsers to the left
+ */
+export function expandParser<A>(parser: Parser<any, any>, init: A, choices: (rule: PrimitiveParser<unknown>, acc: A) => A[], concat: (a: A, b: A) => A): A[] {
+  let output = [init];
+  for (const rule of Array.from(makeIterator(parser))) {
+    const next: A[] = [];
+    for (const acc of output) for (const part of choices(rule as PrimitiveParser<unknown>, acc)) next.push(concat(acc, part));
+    output = next;
+  }
+  return output;
+}
+
+
+// Field name of the label of `Host` in curly braces
+export function captureKey(label: string): string|null {
+  const match = /^\{(.+)\}$/.exec(label);
+  return match && match[1];
+}
+
+
+// Field names of all captured labels of `Host`
+export function captureKeys(parser: Host<any>): string[] {
+  return parser._labels.map(captureKey).filter(x => x !== null) as string[];
+}
+
+
+// Adapter for the label of `Host` in curly braces
+export function getCapture(parser: Host<any>, key: string): Adapter<any> {
+  return parser._captures.hasOwnProperty(key) ? parser._captures[key] : nestring;
+}
+
+
+export function getDefaultValue<A>(adapter: Adapter<A>): Option<A> {
+  if (adapter instanceof DefaultAdapter) return some(adapter._default);
+  if (adapter instanceof LiteralsAdapter) return none;
+  if (adapter instanceof RepeatedAdapter) return none;
+  if (adapter instanceof ArrayAdapter) return none;
+  if (adapter instanceof CustomAdapter) return none;
+  if (adapter instanceof NamedAdapter) return getDefaultValue(adapter._adapter);
+  if (adapter instanceof DimapAdapter) return getDefaultValue(adapter._adapter).map(adapter._map);
+  if (adapter instanceof HasAdapter) return getDefaultValue(adapter.toAdapter());
+  return absurd(adapter);
+}
+
+export function getName<A>(adapter: Adapter<A>): Option<string> {
+  if (adapter instanceof DefaultAdapter) return getName(adapter._adapter);
+  if (adapter instanceof LiteralsAdapter) return none;
+  if (adapter instanceof RepeatedAdapter) return getName(adapter._adapter);
+  if (adapter instanceof ArrayAdapter) return none;
+  if (adapter instanceof CustomAdapter) return none;
+  if (adapter instanceof NamedAdapter) return some(adapter._name);
+  if (adapter instanceof DimapAdapter) return getName(adapter._adapter);
+  if (adapter instanceof HasAdapter) return getName(adapter.toAdapter());
+  return absurd(adapter);
+}
+
+
+// Finite set of strings accepted by the adapter, `null` if unknown
+export function getLiterals(adapter: Adapter<any>): string[]|null {
+  if (adapter instanceof LiteralsAdapter) return adapter._literals.filter(x => typeof(x) === 'string');
+  if (adapter instanceof NamedAdapter || adapter instanceof DefaultAdapter) return getLiterals(adapter._adapter);
+  return null;
+}
+
+
+// Key of a query parameter inside a `Group`
+export function prefixKey(prefix: string, key: string): string {
+  return prefix ? `${prefix}[${key}]` : key;
+}
+
+
+// Split path into segments, extra slashes don't matter
+export function splitPath(path: string): string[] {
+  return path.split('/').filter(x => !!x);
+}
+
+
+// Escapes only the syntax characters, so the result is also valid
+// in regular expressions with the `u` flag
+export function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -1,4 +1,4 @@
-import { Parser, Merge, Path, Segment } from '../parser';
+import { Parser, Merge, Path, Segment, Rest, OptionalSegment, Matrix, Mount } from '../parser';
 
 
 type Result<O, I> = {
@@ -16,7 +16,7 @@ export default function prepareOneOf<O, I>(parser: Parser<O, I>): Parser<O, I> {
       return { paths: [parser], rest: null, done: false };
     }
     
-    if (parser instanceof Segment) {
+    if (parser instanceof Segment || parser instanceof Rest || parser instanceof OptionalSegment || parser instanceof Matrix || parser instanceof Mount) {
       return { paths: [], rest: parser, done: true };
     }
 
@@ -6,3 +6,7 @@ export type Expr = boolean|null|undefined|number|string|{}|any[]|[any,any]|[any,
 export function absurd(x: never): any {
   throw new Error('absurd: unreachable code');
 }
+
+
+/** Convert union `A|B|C` into intersection `A&B&C` */
+export type UnionToIntersection<U> = (U extends any ? (k: U) => void : never) extends ((k: infer I) => void) ? I : never;
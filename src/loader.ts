@@ -0,0 +1,169 @@
+import { Parser, OneOf, Mount, Extra, traverseParsers } from './parser';
+
+
+/**
+ * Fetch data for a route. `signal` is aborted when the load is
+ * superseded by another one, `previous` is the data of the last
+ * loaded route with the same tag
+ */
+export type Loader<R, D> = (route: R, context: LoaderContext<D>) => Promise<D>;
+
+
+export interface LoaderContext<D> {
+  signal: AbortSignal;
+  previous?: D;
+}
+
+
+/**
+ * Loaders for the tags of the parser, for the routes that don't
+ * declare the loader with `extra({ loader })`. Routes without loaders
+ * have no data
+ */
+export type Loaders<O extends { tag: string }, D> = {
+  [K in O['tag']]?: Loader<Extract<O, { tag: K }>, D>;
+};
+
+
+/** Options for `createLoader` */
+export interface LoaderOptions {
+  // Number of results kept in the cache, `50` by default. Pass `0`
+  // to disable caching
+  cacheSize?: number;
+}
+
+
+/** State of `LoaderRunner` for the UI */
+export interface LoaderState<O, D> {
+  // Last successfully loaded route, stays while the next one is
+  // pending so the UI can keep showing the previous page
+  loaded: { route: O, data: D|undefined }|null;
+  // Route being loaded
+  pending: O|null;
+  // Error of the latest load
+  failed: { route: O, error: unknown }|null;
+}
+
+
+/** Result of `createLoader` */
+export interface LoaderRunner<O, D> {
+  state(): LoaderState<O, D>;
+  // Resolves when the load is finished, superseded or failed, never
+  // rejects, see `state` for the outcome
+  load(route: O): Promise<void>;
+  // Listener is called after each change of the state, returns the
+  // function to unsubscribe
+  subscribe(listener: (state: LoaderState<O, D>) => void): () => void;
+  // Remove the cached data for the route or for all routes
+  invalidate(route?: O): void;
+}
+
+
+/**
+ * Run loaders for the routes, e.g. for the routes from
+ * `Router.prototype.subscribe`. Routes declare their loaders with
+ * `extra({ loader })`, `loaders` maps the remaining tags. Throws
+ * for tags unknown to the parser. Starting a new load aborts the
+ * previous one, results of aborted loads are ignored. Data is cached
+ * by the printed url of the route
+ *
+ * ```ts
+ * const fetchCountry = (route: { code: string }, { signal }: LoaderContext<any>) =>
+ *   fetch(`https://restcountries.com/v3.1/alpha/${route.code}`, { signal }).then(x => x.json());
+ * const parser = r.oneOf(
+ *   r.tag('Home'),
+ *   r.tag('Country').path('/country').segment('code', r.nestring).extra({ loader: fetchCountry }),
+ *   r.tag('All').path('/all'),
+ * );
+ * const loader = createLoader(parser, {
+ *   All: (route, { signal }) => fetch('https://restcountries.com/v3.1/all', { signal }).then(x => x.json()),
+ * });
+ * loader.subscribe(state => render(state));
+ * router.subscribe(route => loader.load(route));
+ * ```
+ */
+export function createLoader<O extends { tag: string }, D = any>(parser: Parser<O, any>, loaders: Loaders<O, D> = {}, options: LoaderOptions = {}): LoaderRunner<O, D> {
+  const tags = collectTags(parser);
+  for (const tag of Object.keys(loaders)) {
+    if (tags.indexOf(tag) === -1) throw new Error(`createLoader: unknown tag '${tag}'`);
+  }
+  const cacheSize = options.cacheSize === undefined ? 50 : options.cacheSize;
+  const cache = new Map<string, D>();
+  const listeners: Array<(state: LoaderState<O, D>) => void> = [];
+  let state: LoaderState<O, D> = { loaded: null, pending: null, failed: null };
+  let controller: AbortController|null = null;
+
+  return {
+    state: () => state,
+    load,
+    subscribe(listener) {
+      listeners.push(listener);
+      return () => { const idx = listeners.indexOf(listener); if (idx !== -1) listeners.splice(idx, 1); };
+    },
+    invalidate: route => route === undefined ? cache.clear() : void cache.delete(parser.print(route)),
+  };
+
+  function load(route: O): Promise<void> {
+    if (controller) controller.abort();
+    controller = null;
+    const key = parser.print(route);
+    const loader = routeLoader(route) || loaders[route.tag as O['tag']] as Loader<O, D>|undefined;
+    if (!loader || cache.has(key)) {
+      const data = loader ? cache.get(key) : undefined;
+      if (loader) remember(key, data as D);
+      setState({ loaded: { route, data }, pending: null, failed: null });
+      return Promise.resolve();
+    }
+    const current = controller = new AbortController();
+    const previous = state.loaded && state.loaded.route.tag === route.tag ? state.loaded.data : undefined;
+    setState({ ...state, pending: route, failed: null });
+    const onLoad = (data: D) => {
+      if (current.signal.aborted) return;
+      controller = null;
+      remember(key, data);
+      setState({ loaded: { route, data }, pending: null, failed: null });
+    };
+    const onError = (error: unknown) => {
+      if (current.signal.aborted) return;
+      controller = null;
+      setState({ ...state, pending: null, failed: { route, error } });
+    };
+    // The loader starts in a microtask, skip it if already superseded
+    const start = () => current.signal.aborted ? undefined as any as D : loader(route, { previous, signal: current.signal });
+    return Promise.resolve().then(start).then(onLoad, onError);
+  }
+
+  // Keep the most recent results, `Map` iterates in the insertion order
+  function remember(key: string, data: D) {
+    if (cacheSize <= 0) return;
+    cache.delete(key);
+    cache.set(key, data);
+    if (cache.size > cacheSize) cache.delete(cache.keys().next().value);
+  }
+
+  function setState(next: LoaderState<O, D>) {
+    state = next;
+    listeners.slice().forEach(f => f(state));
+  }
+}
+
+
+// -- Helpers --
+
+// Loader declared on the route with `extra({ loader })`
+function routeLoader<O, D>(route: O): Loader<O, D>|undefined {
+  const loader = (route as { loader?: unknown }).loader;
+  return typeof(loader) === 'function' ? loader as Loader<O, D> : undefined;
+}
+
+
+// Tags of the routes produced by the parser, including nested `oneOf`s
+function collectTags(parser: Parser<any, any>): string[] {
+  const output: string[] = [];
+  traverseParsers(parser, rule => {
+    if (rule instanceof Extra && typeof(rule._payload['tag']) === 'string') output.push(rule._payload['tag']);
+    if (rule instanceof Mount) output.push(...collectTags(rule._parser));
+    if (rule instanceof OneOf) Object.keys(rule._tags).forEach(tag => output.push(tag, ...collectTags(rule._tags[tag])));
+  });
+  return output;
+}
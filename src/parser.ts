@@ -1,9 +1,10 @@
 import { some, none, Option, Some, None } from './option';
-import { Adapter, CustomAdapter, NamedAdapter, DimapAdapter, DefaultAdapter, HasAdapter } from './adapter';
+import { Adapter, NamedAdapter, DefaultAdapter, Normalize, nestring, string as stringAdapter } from './adapter';
 import isEqual from './internal/isequal';
 import makeIterator from './internal/parser-iterator';
 import prepareOneOf from './internal/prepare-oneof';
-import { absurd } from './internal/types';
+import { expandParser, captureKey, captureKeys, getCapture, getDefaultValue, getName, getLiterals, prefixKey, splitPath, escapeRegExp } from './internal/helpers';
+import { absurd, UnionToIntersection } from './internal/types';
 
 
 // Invertible url parser library
@@ -39,12 +40,20 @@ import { absurd } from './internal/types';
  * @param I Input for `print`, usually same as `O`
  */
 export type Parser<O={}, I=O> =
-  | Params<O, I>  // { _params: Record<string, Adapter<any>> }
+  | Params<O, I>  // { _params: ParamsRecord }
   | Segment<O, I> // { _key: string, _adapter: Adapter<any> }
+  | Rest<O, I>    // { _key: string, _adapter: Adapter<any> }
+  | OptionalSegment<O, I> // { _key: string, _adapter: Adapter<any, { hasDefault: true }> }
+  | Fragment<O, I> // { _key: string, _adapter: Adapter<any> }
+  | Matrix<O, I>  // { _params: ParamsRecord }
+  | Host<O, I>    // { _labels: string[], _captures: Record<string, Adapter<any>> }
+  | AuthorityPart<O, I> // { _part: 'scheme'|'port', _key: string, _adapter: Adapter<any> }
   | Embed<O, I>   // { _key: string, _parser: Parser<unknown> }
-  | OneOf<O, I>   // { _tags: Record<string, Parser<unknown>>, _prefixTrie?: PrefixTrie }
+  | Mount<O, I>   // { _base: () => string, _parser: Parser<O, I> }
+  | OneOf<O, I>   // { _tags: Record<string, Parser<unknown>>, _prefixTrie?: PrefixTrie, _duplicates: string[] }
   | Path<O, I>    // { _segments: string[] }
   | Extra<O, I>   // { _payload: object }
+  | Priority<O, I> // { _priority: number }
   | Custom<O, I>  // { _parse(s: ParserState): Array<[O, ParserState]>, _print(a: I): UrlChunks }
   | Merge<O, I>   // { _first: Parser<object>, _second: Parser<object> }
   ;
@@ -56,12 +65,18 @@ export class ParserBase<O={}, I=O> {
   readonly _I: I;
   
   /**
-   *  Try to match given string to an `O`
+   * Try to match given string to an `O`. Pass `ParseOptions.Strict`
+   * to reject urls containing unknown query parameters
+   * 
+   * ```ts
+   * const parser = r.path('/shop').params({ page: r.nat.withDefault(1) });
+   * console.log(parser.parse('/shop?pgae=2')); // => { page: 1 }
+   * console.log(parser.parse('/shop?pgae=2', r.ParseOptions.Strict)); // => null
+   * ```
    */
-  parse(url: string): O|null {
+  parse(url: string, options: ParseOptions = 0x0): O|null {
     const self = this as any as Parser<O, I>;
-    const results = doParse(self, prepareState(url), OnlyFirstMatch);
-    return results.length ? results[0][0] : null;
+    return parseFirst(self, url, options);
   }
 
   /** 
@@ -72,6 +87,99 @@ export class ParserBase<O={}, I=O> {
     return assembleChunks(doPrint(self, route));
   }
 
+  /**
+   * Same as `print`, but checks the route first. Rejects unknown
+   * tags, missing fields and values that cannot be parsed back, for
+   * instance empty segments or fractional numbers for `nat`. The
+   * printed url is also parsed to make sure it leads back to the
+   * same route and not to another alternative or nowhere
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1) }),
+   *   r.tag('Item').path('/shop/item').segment('id', r.nestring),
+   * );
+   * console.log(parser.printSafe({ tag: 'Item', id: '42' })); // => { tag: "Printed", url: "shop/item/42" }
+   * console.log(parser.printSafe({ tag: 'Item', id: '' })); // => { tag: "Rejected", failure: { tag: "ValueRejected", key: "id", value: "", printed: "" } }
+   * console.log(parser.printSafe({ tag: 'Shop', page: 1.5 })); // => { tag: "Rejected", failure: { tag: "ValueRejected", key: "page", value: 1.5, printed: ["1.5"] } }
+   * console.log(parser.printSafe({ tag: 'Blog' } as any)); // => { tag: "Rejected", failure: { tag: "UnknownTag", value: "Blog" } }
+   * ```
+   */
+  printSafe(route: I): PrintResult {
+    const self = this as any as Parser<O, I>;
+    const failure = validateRoute(self, route);
+    if (failure !== null) return { tag: 'Rejected', failure };
+    const url = assembleChunks(doPrint(self, route));
+    const parsed = self.parse(url);
+    if (parsed === null || Object.keys(route).some(k => !isEqual(route[k], parsed[k]))) return { tag: 'Rejected', failure: { tag: 'Mismatch', url, parsed } };
+    return { tag: 'Printed', url };
+  }
+
+  /**
+   * Parse the url and print the result back. The printed url is the
+   * canonical form of the given url: duplicate and trailing slashes
+   * are removed, query parameters are reordered and parameters with
+   * default values are dropped. Leading slash is not significant
+   * 
+   * ```ts
+   * const parser = r.path('/shop').params({ page: r.nat.withDefault(1), q: r.string.withDefault('') });
+   * console.log(parser.canonicalize('/shop//?q=apples&page=1'));
+   * // => { route: { page: 1, q: "apples" }, canonicalUrl: "shop?q=apples", isCanonical: false }
+   * console.log(parser.canonicalize('/shop?q=apples'));
+   * // => { route: { page: 1, q: "apples" }, canonicalUrl: "shop?q=apples", isCanonical: true }
+   * ```
+   */
+  canonicalize(url: string, options: ParseOptions = 0x0): Canonical<O>|null {
+    const self = this as any as Parser<O, I>;
+    const route = this.parse(url, options);
+    if (route === null) return null;
+    const canonicalUrl = assembleChunks(doPrint(self, route as any as I));
+    return { route, canonicalUrl, isCanonical: url.replace(/^\//, '') === canonicalUrl };
+  }
+
+  /**
+   * Explain why the url does or doesn't match. For `oneOf` parsers
+   * the result contains an entry for each alternative, `idx` is the
+   * number of path segments consumed before the failure
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('Shop').path('/shop'),
+   *   r.tag('Item').path('/shop/item').segment('id', r.nat),
+   * );
+   * console.log(parser.explain('/shop/item/abc'));
+   * // => [{ tag: "Shop", matched: false, idx: 1, failure: { tag: "UnconsumedSegments", segments: ["item", "abc"] } },
+   * //     { tag: "Item", matched: false, idx: 2, failure: { tag: "SegmentRejected", key: "id", value: "abc" } }]
+   * ```
+   */
+  explain(url: string, options: ParseOptions = 0x0): Explanation[] {
+    const self = this as any as Parser<O, I>;
+    const state = prepareState(url, self);
+    if (self instanceof Mount && self._parser instanceof OneOf) {
+      const { _base, _parser: { _tags } } = self;
+      return Object.keys(_tags).map(tag => explainOne(tag, new Mount(_base, _tags[tag])));
+    }
+    if (!(self instanceof OneOf)) return [explainOne(null, self)];
+    return Object.keys(self._tags).map(tag => explainOne(tag, self._tags[tag]));
+
+    function explainOne(tag: string|null, parser: Parser): Explanation {
+      let failure: ParseFailure|null = null;
+      let idx = -1;
+      const onFailure = (f: ParseFailure, i: number) => { if (i >= idx) { failure = f; idx = i; } };
+      const results = doParse(parser, state, options & ~OnlyFirstMatch, onFailure);
+      for (const [, s] of results) {
+        if (s.idx === s.segments.length && isStrictMatch(s, options)) return { tag, matched: true, idx: s.idx, failure: null };
+      }
+      for (const [, s] of results) {
+        if (s.idx < idx) continue;
+        idx = s.idx;
+        const unknownParams = s.unknownParams();
+        failure = s.idx < s.segments.length ? { tag: 'UnconsumedSegments', segments: s.segments.slice(s.idx) } : { tag: 'UnknownParams', params: unknownParams };
+      }
+      return { tag, matched: false, idx: Math.max(idx, 0), failure };
+    }
+  }
+
   /**
    * Similar to `parse`, but returns all intermediate routes
    * 
@@ -85,21 +193,76 @@ export class ParserBase<O={}, I=O> {
    * // => [{ tag: 'Item', id: '42' }, { tag: 'Shop' }, { tag: 'Home' }]
    * ```
    */
-  parseAll(url: string): O[] {
+  parseAll(url: string, options: ParseOptions = 0x0): O[] {
     const self = this as any as Parser<O, I>;
-    const results = doParse(self, prepareState(url), 0x0).sort(compareFn);
-    const output: Array<O> = [];
-    let idx = -1;
-    for (const [route, state] of results) {
-      if (idx === state.idx) continue;
-      output.push(route);
-      idx = state.idx;
-    }
-    return output;
+    return parseIntermediate(self, url, options);
+  }
 
-    function compareFn(a: [O, ParserState], b: [O, ParserState]): number {
-      return b[1].idx - a[1].idx;
+  /**
+   * Routes whose urls are prefixes of the url of `route`, the nearest
+   * ancestor comes first. Computed from the structure of the parser
+   * without printing and parsing: static segments must coincide and
+   * captured segments must have the same key, their values and
+   * values of query parameters are copied from `route`
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('Users').path('/users'),
+   *   r.tag('User').path('/users').segment('id', r.nat),
+   *   r.tag('UserPosts').path('/users').segment('id', r.nat).path('/posts'),
+   * );
+   * console.log(parser.ancestors({ tag: 'UserPosts', id: 1 })); // => [{ tag: "User", id: 1 }, { tag: "Users" }]
+   * ```
+   */
+  ancestors(route: I): O[] {
+    const self = this as any as Parser<O, I>;
+    const target = routeElements(self, route, []);
+    if (target === null) return [];
+    const output: Array<[number, O]> = [];
+    for (const skeleton of routeSkeletons(self, [])) {
+      const ancestor = matchSkeleton(skeleton, target, route);
+      if (ancestor !== null) output.push([skeleton.elements.length, toOutput(self, ancestor as any as I)]);
     }
+    return output.sort((a, b) => b[0] - a[0]).map(x => x[1]);
+  }
+
+  /**
+   * Check that the url of `a` is a proper prefix of the url of `b`,
+   * see `Parser.prototype.ancestors`
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('User').path('/users').segment('id', r.nat),
+   *   r.tag('UserPosts').path('/users').segment('id', r.nat).path('/posts'),
+   * );
+   * console.log(parser.isAncestor({ tag: 'User', id: 1 }, { tag: 'UserPosts', id: 1 })); // => true
+   * console.log(parser.isAncestor({ tag: 'User', id: 2 }, { tag: 'UserPosts', id: 1 })); // => false
+   * ```
+   */
+  isAncestor(a: I, b: I): boolean {
+    const self = this as any as Parser<O, I>;
+    const [xs, ys] = [routeElements(self, a, []), routeElements(self, b, [])];
+    return xs !== null && ys !== null && xs.length < ys.length && xs.every((x, i) => isEqual(x, ys[i]));
+  }
+
+  /**
+   * Check if the link to `target` should be highlighted when the
+   * current route is `current`. That is when the routes are the same
+   * or, unless `exact` is set, `target` is an ancestor of `current`
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('Users').path('/users'),
+   *   r.tag('User').path('/users').segment('id', r.nat),
+   * );
+   * console.log(parser.isActive({ tag: 'User', id: 1 }, { tag: 'Users' })); // => true
+   * console.log(parser.isActive({ tag: 'User', id: 1 }, { tag: 'Users' }, { exact: true })); // => false
+   * ```
+   */
+  isActive(current: I, target: I, options: { exact?: boolean } = {}): boolean {
+    const self = this as any as Parser<O, I>;
+    if (isEqual(toOutput(self, current), toOutput(self, target))) return true;
+    return !options.exact && self.isAncestor(target, current);
   }
 
   /** 
@@ -136,6 +299,45 @@ export class ParserBase<O={}, I=O> {
     return new Merge(self, new Segment(key, adapter));
   }
   
+  /**
+   * Similar to `segment`, but the segment can be omitted in which
+   * case the default value of the adapter is used. The segment is
+   * also omitted in `print` when the value equals the default
+   * 
+   * ```ts
+   * const parser = r.path('/blog').optionalSegment('category', r.literals('art', 'science').withDefault('all'));
+   * console.log(parser.parse('/blog')); // => { category: "all" }
+   * console.log(parser.parse('/blog/art')); // => { category: "art" }
+   * console.log(parser.print({ category: 'all' })); // => "blog"
+   * console.log(parser.print({ category: 'science' })); // => "blog/science"
+   * ```
+   * @param key Field name in the data structure
+   * @param adapter Adapter with default value
+   */
+  optionalSegment<K extends string, A extends Adapter<any, { hasDefault: true }>>(key: K, adapter: A): SegmentParser<O, I, K, A> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new OptionalSegment(key, adapter));
+  }
+  
+  /**
+   * Consume all remaining path segments. Adapter receives the
+   * segments joined with slashes and the printed value is split back
+   * into separate segments
+   * 
+   * ```ts
+   * const parser = r.path('/files').rest('filePath', r.string);
+   * console.log(parser.parse('/files/a/b/c.txt')); // => { filePath: "a/b/c.txt" }
+   * console.log(parser.parse('/files')); // => { filePath: "" }
+   * console.log(parser.print({ filePath: 'docs/readme.md' })); // => "files/docs/readme.md"
+   * ```
+   * @param key Field name in the data structure
+   * @param adapter Adapter for parsing the rest of the path
+   */
+  rest<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<O, I, K, A> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new Rest(key, adapter));
+  }
+  
   /**
    * Add query parameters
    * 
@@ -145,13 +347,108 @@ export class ParserBase<O={}, I=O> {
    * console.log(parser.print({ offset: 20, limit: 20, search: "bana" })); // => "shop/items?offset=20&search=bana"
    * ```
    * @param params Object where keys are parameter names and values
-   * are adapters
+   * are adapters or nested groups created with `group`
    */
-  params<R extends Record<string, Adapter<any>>>(params: R): ParamsParser<O, I, R> {
+  params<R extends ParamsRecord>(params: R): ParamsParser<O, I, R> {
     const self = this as any as Parser<O, I>;
     return new Merge(self, new Params(params));
   }
   
+  /**
+   * Add matrix parameters to the last path segment. Parameters are
+   * separated by semicolons and handled with the same adapters as
+   * query parameters. Segments without `matrix` keep semicolons in
+   * their values. With `ParseOptions.Strict` unknown matrix
+   * parameters are rejected as well as unknown query parameters
+   * 
+   * ```ts
+   * const parser = r.path('/cars').matrix({ color: r.string.withDefault('any'), year: r.nat.withDefault(0) }).path('/models');
+   * console.log(parser.parse('/cars;color=red;year=2012/models')); // => { color: "red", year: 2012 }
+   * console.log(parser.parse('/cars/models')); // => { color: "any", year: 0 }
+   * console.log(parser.print({ color: 'blue', year: 0 })); // => "cars;color=blue/models"
+   * ```
+   * @param params Same as the argument of `params`
+   */
+  matrix<R extends ParamsRecord>(params: R): ParamsParser<O, I, R> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new Matrix(params));
+  }
+  
+  /**
+   * Parse url fragment (the part after `#`) with the adapter and
+   * store the result in the given field. Like query parameters,
+   * the fragment can be omitted when the adapter has default value
+   * 
+   * ```ts
+   * const parser = r.path('/docs').segment('page', r.nestring).fragment('section', r.string.withDefault(''));
+   * console.log(parser.parse('/docs/install#linux')); // => { page: "install", section: "linux" }
+   * console.log(parser.parse('/docs/install')); // => { page: "install", section: "" }
+   * console.log(parser.print({ page: 'install', section: 'macos' })); // => "docs/install#macos"
+   * ```
+   * @param key Field name in the data structure
+   * @param adapter Adapter for parsing the fragment
+   */
+  fragment<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<O, I, K, A> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new Fragment(key, adapter));
+  }
+  
+  /**
+   * Match host name of an absolute url. Labels of the host in
+   * curly braces are parsed with the adapters from `captures` (or
+   * `nestring` if the adapter is missing). When a parser contains
+   * `host`, `print` produces absolute urls
+   * 
+   * ```ts
+   * const parser = r.host('{tenant}.example.com', { tenant: r.nestring }).path('/dashboard');
+   * console.log(parser.parse('https://acme.example.com/dashboard')); // => { tenant: "acme" }
+   * console.log(parser.parse('/dashboard')); // => null
+   * console.log(parser.print({ tenant: 'globex' })); // => "//globex.example.com/dashboard"
+   * ```
+   * @param pattern Host name, labels in curly braces are captured
+   * @param captures Adapters for captured labels
+   */
+  host(pattern: string): Parser<O, I>;
+  host<R extends Record<string, Adapter<any>>>(pattern: string, captures: R): ParamsParser<O, I, R>;
+  host(pattern: string, captures?: Record<string, Adapter<any>>): Parser<any, any> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, host(pattern, captures));
+  }
+  
+  /**
+   * Parse scheme of an absolute url (without colon). Like query
+   * parameters, the scheme can be omitted when the adapter has default
+   * value, protocol-relative url is printed in this case
+   * 
+   * ```ts
+   * const parser = r.scheme('secure', r.literals(['http', 'https']).dimap(x => x === 'https', x => x ? 'https' : 'http')).host('example.com');
+   * console.log(parser.parse('https://example.com')); // => { secure: true }
+   * console.log(parser.print({ secure: false })); // => "http://example.com"
+   * ```
+   * @param key Field name in the data structure
+   * @param adapter Adapter for parsing the scheme
+   */
+  scheme<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<O, I, K, A> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new AuthorityPart('scheme', key, adapter));
+  }
+  
+  /**
+   * Parse port of an absolute url
+   * 
+   * ```ts
+   * const parser = r.host('localhost').port('port', r.nat.withDefault(80)).path('/api');
+   * console.log(parser.parse('http://localhost:8080/api')); // => { port: 8080 }
+   * console.log(parser.print({ port: 80 })); // => "//localhost/api"
+   * ```
+   * @param key Field name in the data structure
+   * @param adapter Adapter for parsing the port
+   */
+  port<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<O, I, K, A> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new AuthorityPart('port', key, adapter));
+  }
+  
   /**
    * Join two parsers together. Underlying types will be combined through
    * intersection. That is, the fields will be merged
@@ -208,6 +505,47 @@ export class ParserBase<O={}, I=O> {
     return new Merge(self, new Extra(payload));
   }
 
+  /**
+   * Put the parser under the base path. Parsing strips the base
+   * and printing adds it. The base can also be a function, it will
+   * be called every time when the url is parsed or printed
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('Home'),
+   *   r.tag('Shop').path('/shop'),
+   * );
+   * const mounted = parser.mount('/app');
+   * console.log(mounted.parse('/app/shop')); // => { tag: "Shop" }
+   * console.log(mounted.parse('/shop')); // => null
+   * console.log(mounted.print({ tag: 'Home' })); // => "app"
+   * const configurable = parser.mount(() => process.env.BASE_PATH || '/');
+   * ```
+   * @param base Base path or a function that returns it
+   */
+  mount(base: string|(() => string)): Mount<O, I> {
+    const self = this as any as Parser<O, I>;
+    return new Mount(typeof(base) === 'string' ? () => base : base, self);
+  }
+
+  /**
+   * Override the ranking of the route among alternatives of `oneOf`
+   * when parsing with `ParseOptions.Ranked`. Routes with higher
+   * priority are tried first, the default priority is zero
+   * 
+   * ```ts
+   * const parser = r.oneOf(
+   *   r.tag('Item').path('/shop').segment('id', r.nestring),
+   *   r.tag('Files').path('/shop').rest('path', r.string).priority(1),
+   * );
+   * console.log(parser.parse('/shop/42', r.ParseOptions.Ranked)); // => { tag: "Files", path: "42" }
+   * ```
+   */
+  priority(value: number): Merge<O, I> {
+    const self = this as any as Parser<O, I>;
+    return new Merge(self, new Priority(value));
+  }
+
   /** Add additional fields to `I` */
   toOutput(input: I): O {
     const self = this as any as Parser<O, I>;
@@ -234,23 +572,139 @@ export function segment<K extends string, A extends Adapter<any>>(key: K, adapte
 }
 
 
+/** @see `Parser.prototype.optionalSegment` */
+export function optionalSegment<K extends string, A extends Adapter<any, { hasDefault: true }>>(key: K, adapter: A): SegmentParser<{}, {}, K, A> {
+  return new OptionalSegment(key, adapter);
+}
+
+
+/** @see `Parser.prototype.rest` */
+export function rest<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<{}, {}, K, A> {
+  return new Rest(key, adapter);
+}
+
+
+/** @see `Parser.prototype.fragment` */
+export function fragment<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<{}, {}, K, A> {
+  return new Fragment(key, adapter);
+}
+
+
+/** @see `Parser.prototype.host` */
+export function host(pattern: string): Parser<{}, {}>;
+export function host<R extends Record<string, Adapter<any>>>(pattern: string, captures?: R): ParamsParser<{}, {}, R>;
+export function host(pattern: string, captures?: Record<string, Adapter<any>>): Parser<any, any> {
+  return new Host(pattern.split('.').filter(x => !!x), captures || {});
+}
+
+
+/** @see `Parser.prototype.scheme` */
+export function scheme<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<{}, {}, K, A> {
+  return new AuthorityPart('scheme', key, adapter);
+}
+
+
+/** @see `Parser.prototype.port` */
+export function port<K extends string, A extends Adapter<any>>(key: K, adapter: A): SegmentParser<{}, {}, K, A> {
+  return new AuthorityPart('port', key, adapter);
+}
+
+
 /** @see `Parser.prototype.extra` */
 export function extra<E extends {}>(payload: E): Extra<E, {}> {
   return new Extra(payload);
 }
 
 
+/** @see `Parser.prototype.priority` */
+export function priority(value: number): Parser<{}, {}> {
+  return new Priority(value);
+}
+
+
 /** @see `Parser.prototype.params` */
-export function params<R extends Record<string, Adapter<any>>>(params: R): ParamsParser<{}, {}, R> {
+export function params<R extends ParamsRecord>(params: R): ParamsParser<{}, {}, R> {
   return new Params(params);
 }
 
 
+/** @see `Parser.prototype.matrix` */
+export function matrix<R extends ParamsRecord>(params: R): ParamsParser<{}, {}, R> {
+  return new Matrix(params);
+}
+
+
+/**
+ * Group of query parameters stored as a nested object. Keys of the
+ * parameters use bracket notation. The group is optional in the
+ * input when all of its parameters have default values
+ * 
+ * ```ts
+ * const parser = r.path('/users').params({ filter: r.group({ name: r.string.withDefault(''), age: r.nat.withDefault(0) }) });
+ * console.log(parser.parse('/users?filter[name]=bob&filter[age]=3')); // => { filter: { name: "bob", age: 3 } }
+ * console.log(parser.parse('/users')); // => { filter: { name: "", age: 0 } }
+ * console.log(parser.print({ filter: { name: 'bob', age: 0 } })); // => "users?filter[name]=bob"
+ * console.log(parser.print({})); // => "users"
+ * ```
+ * @param params Same as the argument of `params`
+ */
+export function group<R extends ParamsRecord>(params: R): Group<OutParams<R>, InParams<R>, GroupFlags<R>> {
+  return new Group(params);
+}
+
+
 export function embed<K extends string, That extends Parser<any, any>>(key: K, that: That): Parser<{ [k in K]: That['_O'] }, { [k in K]: That['_I'] }> {
   return new Embed(key, that);
 }
 
 
+/**
+ * Describe a route with a tagged template. Placeholders are pairs of
+ * a field name and an adapter, a placeholder in the path occupies
+ * the whole segment, a placeholder after `?` is a query parameter.
+ * The result is the same as with the corresponding calls to `path`,
+ * `segment` and `params`
+ * 
+ * ```ts
+ * const parser = r.tag('Blog').merge(r.route`/blog/${['category', r.nestring]}?page=${['page', r.nat.withDefault(1)]}`);
+ * // same as r.tag('Blog').path('/blog').segment('category', r.nestring).params({ page: r.nat.withDefault(1) })
+ * console.log(parser.parse('/blog/art?page=2')); // => { tag: "Blog", category: "art", page: 2 }
+ * console.log(parser.print({ tag: 'Blog', category: 'science' })); // => "blog/science"
+ * ```
+ */
+export function route<T extends Array<[K, Adapter<any, any>]>, K extends string>(strings: TemplateStringsArray, ...args: T): Parser<RouteOut<T>, RouteIn<T>> {
+  const parsers: Parser[] = [];
+  const params: ParamsRecord = {};
+  let query = false;
+  for (let i = 0; i < strings.length; i++) {
+    const placeholder = i < args.length ? args[i] : null;
+    const qIdx = query ? -1 : strings[i].indexOf('?');
+    const pathStr = query ? '' : qIdx === -1 ? strings[i] : strings[i].slice(0, qIdx);
+    const queryStr = query ? strings[i] : qIdx === -1 ? '' : strings[i].slice(qIdx + 1);
+    query = query || qIdx !== -1;
+    if (pathStr) {
+      const segments = pathStr.split('/').filter(x => !!x);
+      if (segments.length) parsers.push(new Path(segments));
+    }
+    if (!query) {
+      if (placeholder === null) continue;
+      if ((i !== 0 || pathStr !== '') && pathStr[pathStr.length - 1] !== '/' || !/^([/?]|$)/.test(strings[i + 1])) {
+        throw new Error(`route: placeholder #${i + 1} should occupy the whole path segment`);
+      }
+      parsers.push(new Segment(placeholder[0], placeholder[1]));
+    } else if (placeholder !== null) {
+      const match = /^&?([^&=]+)=$/.exec(queryStr);
+      if (!match) throw new Error(`route: placeholder #${i + 1} should be a value of query parameter`);
+      params[placeholder[0]] = match[1] !== placeholder[0] ? placeholder[1].withName(match[1]) : placeholder[1];
+    } else if (queryStr !== '') {
+      throw new Error(`route: unexpected text in query string '${queryStr}'`);
+    }
+  }
+  if (Object.keys(params).length) parsers.push(new Params(params));
+  return (parsers.length ? parsers.reduce((acc, x) => new Merge(acc, x)) : new Path([])) as Parser<any>;
+}
+
+
 /**
  * Construct a custom parser
  */
@@ -284,14 +738,16 @@ export function oneOf<P extends WithTag[]>(array: P): OneOfParser<P[number]>;
 export function oneOf(): OneOfParser<any> {
   const parsers: ArrayLike<WithTag> = Array.isArray(arguments[0]) ? arguments[0] : arguments;
   const tags: Record<string, Parser> = {};
+  const duplicates: string[] = [];
   for (let i = 0; i < parsers.length; i++) {
     const tag = lookupTag(parsers[i]);
-    if (tag !== null) tags[tag] = prepareOneOf(parsers[i]);
-    else throw new Error(`oneOf: argument #${i + 1} wasn't provided with a tag`);
+    if (tag === null) throw new Error(`oneOf: argument #${i + 1} wasn't provided with a tag`);
+    if (tags.hasOwnProperty(tag)) duplicates.push(tag);
+    tags[tag] = prepareOneOf(parsers[i]);
   }
 
   const prefixTrie = buildTrie(tags);
-  return new OneOf(tags, prefixTrie);
+  return new OneOf(tags, prefixTrie, duplicates);
 
   function lookupTag(parser: WithTag): string|null {
     for (const rule of Array.from(makeIterator(parser))) {
@@ -302,42 +758,133 @@ export function oneOf(): OneOfParser<any> {
 }
 
 
-// Construct state from relative url
-export function prepareState(url: string): ParserState {
-  const [path, query] = url.split('?');
-  const segments = path.split('/').filter(x => x !== '').map(decodeURIComponent);
-  const params = (query || '').split('&').filter(x => x !== '').reduce<Record<string, string>>((acc, pair) => { 
-    const [key, value] = pair.split('=').map(decodeURIComponent);
-    acc[key] = value || '';
-    return acc;
-  }, {}); // tslint:disable-line:align
-  return new ParserState(segments, params, 0);
+/**
+ * Precompute matching data for the parser. The result has the same
+ * `parse`, `parseAll` and `print` methods with identical results,
+ * but doesn't traverse the tree of parsers on every call and
+ * additionally selects alternatives of `oneOf` by the values of
+ * `literals` segments. Intended for the route tables that don't
+ * change after creation
+ * 
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Home'),
+ *   r.tag('Category').path('/shop').segment('category', r.literals('books', 'music')),
+ *   r.tag('Item').path('/shop/item').segment('id', r.nat),
+ * );
+ * const compiled = r.compile(parser);
+ * console.log(compiled.parse('/shop/music')); // => { tag: "Category", category: "music" }
+ * console.log(compiled.print({ tag: 'Item', id: 1 })); // => "shop/item/1"
+ * ```
+ */
+export function compile<O, I>(parser: Parser<O, I>): Compiled<O, I> {
+  const program: Program = { rules: new Map(), tries: new Map() };
+  visit(parser);
+  return new Compiled(parser, program);
+
+  function visit(parser: Parser<any, any>): void {
+    if (program.rules.has(parser)) return;
+    const rules = Array.from(makeIterator(parser));
+    program.rules.set(parser, rules);
+    for (const rule of rules) {
+      if (rule instanceof Embed || rule instanceof Mount) visit(rule._parser);
+      if (rule instanceof OneOf && !program.tries.has(rule)) {
+        program.tries.set(rule, compileTrie(rule._prefixTrie || { '': Object.keys(rule._tags).map(k => rule._tags[k]) }));
+        Object.keys(rule._tags).forEach(tag => visit(rule._tags[tag]));
+      }
+    }
+  }
+
+  function compileTrie(node: PrefixTrie): CompiledTrie {
+    const output: CompiledTrie = { children: {}, generic: [], literals: {} };
+    const alternatives = node[''];
+    const indexed = alternatives.map(leadingLiterals);
+    alternatives.forEach((rules, i) => indexed[i] === null && output.generic.push(rules));
+    for (const literals of indexed) {
+      if (literals === null) continue;
+      for (const k of literals) output.literals[k] = alternatives.filter((rules, i) => indexed[i] === null || indexed[i]!.indexOf(k) !== -1);
+    }
+    for (const k in node) {
+      if (k !== '' && node.hasOwnProperty(k)) output.children[k] = compileTrie(node[k] as PrefixTrie);
+    }
+    return output;
+  }
+}
+
+
+// Construct state from relative or absolute url. Protocol-relative
+// urls like `//shop` are read as absolute only when the parser
+// matches the authority
+export function prepareState(absoluteUrl: string, parser?: Parser<any, any>): ParserState {
+  const match = /^(?:([a-zA-Z][a-zA-Z0-9+.-]*):)?\/\/(?:[^/?#@]*@)?([^/?#:]*)(?::(\d*))?/.exec(absoluteUrl);
+  const authorityMatch = match && (match[1] || parser && matchesAuthority(parser)) ? match : null;
+  const authority = authorityMatch ? { scheme: authorityMatch[1] || null, host: decodeURIComponent(authorityMatch[2]).toLowerCase(), port: authorityMatch[3] || null } : null;
+  const url = authorityMatch ? absoluteUrl.slice(authorityMatch[0].length) : absoluteUrl;
+  const hashIdx = url.indexOf('#');
+  const fragment = hashIdx !== -1 ? decodeURIComponent(url.slice(hashIdx + 1)) : null;
+  const [path, query] = (hashIdx !== -1 ? url.slice(0, hashIdx) : url).split('?');
+  const rawSegments = path.split('/').filter(x => x !== '');
+  const segments = rawSegments.map(decodeURIComponent);
+  const parts = rawSegments.map(x => x.split(';'));
+  const plainSegments = parts.map(xs => decodeURIComponent(xs[0]));
+  const matrix = parts.map(xs => parsePairs(xs.slice(1)));
+  const multiParams = parsePairs((query || '').split('&'));
+  const params = Object.keys(multiParams).reduce<Record<string, string>>((acc, k) => (acc[k] = multiParams[k][multiParams[k].length - 1], acc), {});
+  return new ParserState(segments, params, 0, fragment, multiParams, [], matrix, authority, plainSegments);
 }
 
 
 // Construct url from the result of `Parser.print`
 export function assembleChunks(chunks: UrlChunks): string {
-  const [segments, params] = chunks;
-  const query = Object.keys(params).map(key => {
-    const [k, v] = [prettyUriEncode(key), prettyUriEncode(params[key])];
-    return k + (v ? '=' + v : '');
-  }).join('&');
-  return segments.map(prettyUriEncode).join('/') + (query ? '?' + query : '');
+  const [segments, params, fragment, matrix, authority] = chunks;
+  const query = printPairs(params).join('&');
+  const path = segments.map((x, i) => [prettyUriEncode(x), ...printPairs(matrix && matrix[i] || {})].join(';')).join('/');
+  const prefix = authority && authority.host ? (authority.scheme ? authority.scheme + ':' : '') + '//' + authority.host + (authority.port ? ':' + authority.port : '') : '';
+  return prefix + (prefix && path ? '/' : '') + path + (query ? '?' + query : '') + (fragment ? '#' + prettyUriEncode(fragment) : '');
+}
+
+
+// Whether the parser contains `host`, `scheme` or `port`
+function matchesAuthority(parser: Parser<any, any>): boolean {
+  let output = false;
+  traverseParsers(parser, p => {
+    if (p instanceof Host || p instanceof AuthorityPart) output = true;
+    if (p instanceof Embed || p instanceof Mount) output = output || matchesAuthority(p._parser);
+    if (p instanceof OneOf) output = output || Object.keys(p._tags).some(k => matchesAuthority(p._tags[k]));
+  });
+  return output;
+}
+
+
+// Parse `key=value` pairs from query string or matrix parameters
+function parsePairs(pairs: string[]): Record<string, string[]> {
+  const output: Record<string, string[]> = {};
+  pairs.filter(x => x !== '').forEach(pair => {
+    const [key, value] = pair.split('=').map(decodeURIComponent);
+    (output[key] = output[key] || []).push(value || '');
+  });
+  return output;
+}
+
+
+// Inverse of `parsePairs`
+function printPairs(params: Record<string, string|string[]>): string[] {
+  const output: string[] = [];
+  Object.keys(params).forEach(key => {
+    const values = params[key];
+    (Array.isArray(values) ? values : [values]).forEach(value => {
+      const [k, v] = [prettyUriEncode(key).replace(/%5B/g, '[').replace(/%5D/g, ']'), prettyUriEncode(value)];
+      output.push(k + (v ? '=' + v : ''));
+    });
+  });
+  return output;
 }
 
 
 // Make an instance of `O` from `I`
 export function toOutput<O, I>(parser: Parser<O, I>, input: I): O {
-  if (parser instanceof Params) {
-    // @ts-ignore
-    const output = { ...input } as O;
-    for (const k in parser._params) {
-      if (!(k in output)) {
-        const maybeDefault = getDefaultValue(parser._params[k]);
-        if (maybeDefault.isSome()) output[k] = maybeDefault.value;
-      }
-    }
-    return output;
+  if (parser instanceof Params || parser instanceof Matrix) {
+    return paramsToOutput(parser._params, input);
   }
   
   if (parser instanceof Segment) {
@@ -345,6 +892,16 @@ export function toOutput<O, I>(parser: Parser<O, I>, input: I): O {
     return parser._key in input ? input as O : { ...input, [parser._key]: getDefaultValue(parser._adapter) } as O;
   }
   
+  if (parser instanceof Host) {
+    return paramsToOutput(parser._captures, input);
+  }
+  
+  if (parser instanceof Rest || parser instanceof OptionalSegment || parser instanceof Fragment || parser instanceof AuthorityPart) {
+    const maybeDefault = getDefaultValue(parser._adapter);
+    // @ts-ignore
+    return parser._key in input || maybeDefault.isNone() ? input as O : { ...input, [parser._key]: maybeDefault.value } as O;
+  }
+  
   if (parser instanceof Path) {
     return input as any as O; // O ~ {}
   }
@@ -354,6 +911,10 @@ export function toOutput<O, I>(parser: Parser<O, I>, input: I): O {
     return { ...input, [parser._key]: toOutput(parser._parser, input[parser._key]) } as O;
   }
 
+  if (parser instanceof Mount) {
+    return toOutput(parser._parser, input);
+  }
+
   if (parser instanceof OneOf) {
     return toOutput(parser._tags[input['tag']], input) as O;
   }
@@ -363,6 +924,10 @@ export function toOutput<O, I>(parser: Parser<O, I>, input: I): O {
     return { ...input, ...parser._payload } as O;
   }
 
+  if (parser instanceof Priority) {
+    return input as any as O;
+  }
+
   if (parser instanceof Custom) {
     console.error(`'toOutput' cannot be used with 'Custom' parsers`);
     return input as any as O;
@@ -380,28 +945,43 @@ export function toOutput<O, I>(parser: Parser<O, I>, input: I): O {
 export type SingleParser<O={}, I=O> =
   | Params<O, I>
   | Segment<O, I>
+  | Rest<O, I>
+  | Fragment<O, I>
+  | Matrix<O, I>
+  | Host<O, I>
+  | AuthorityPart<O, I>
   | Path<O, I>
   | Extra<O, I>
+  | Priority<O, I>
 
 
 // Parsers that can produce many outputs
 export type MultipleParser<O={}, I=O> =
   | Embed<O, I>
+  | Mount<O, I>
   | OneOf<O, I>
+  | OptionalSegment<O, I>
   | Custom<O, I>
   | Merge<O, I>
   ;
 
 
 // Do actual parsing
-export function doParse<O>(parser: Parser<O, any>, state: ParserState, options = AllSegmentsConsumed): Array<[O, ParserState]> {
+export function doParse<O>(parser: Parser<O, any>, state: ParserState, options = AllSegmentsConsumed, onFailure?: OnFailure, program?: Program): Array<[O, ParserState]> {
   const results: any[] = [[{}, state.clone()]];
-
-  for (const p of Array.from(makeIterator(parser))) {
-    if (p instanceof Params || p instanceof Segment || p instanceof Path || p instanceof Extra) {
+  const normalize = makeNormalize(options);
+  const rules = program && program.rules.get(parser) || Array.from(makeIterator(parser));
+
+  for (let k = 0; k < rules.length; k++) {
+    const p = rules[k];
+    // Segments are split on `;` only when followed by `matrix`
+    let next = k + 1;
+    while (next < rules.length && !(rules[next] instanceof Matrix) && isNonConsuming(rules[next])) next++;
+    const withMatrix = rules[next] instanceof Matrix;
+    if (p instanceof Params || p instanceof Segment || p instanceof Rest || p instanceof Fragment || p instanceof Matrix || p instanceof Host || p instanceof AuthorityPart || p instanceof Path || p instanceof Extra || p instanceof Priority) {
       let i = 0;
       while (i < results.length) {
-        if (!parseSingle(p, results[i][0], results[i][1])) {
+        if (!parseSingle(p, results[i][0], results[i][1], withMatrix)) {
           results.splice(i, 1);
         } else i++;
       }
@@ -409,7 +989,7 @@ export function doParse<O>(parser: Parser<O, any>, state: ParserState, options =
     } else {
       let i = 0;
       while (i < results.length) {
-        const replacements = parseMultiple(p, results[i][0], results[i][1]);
+        const replacements = parseMultiple(p, results[i][0], results[i][1], withMatrix);
         results.splice(i, 1, ...replacements);
         i += replacements.length;
       } 
@@ -420,73 +1000,131 @@ export function doParse<O>(parser: Parser<O, any>, state: ParserState, options =
   return results;
 
   // Handle parsers that produce only one result
-  function parseSingle<O>(parser: SingleParser<O, any>, output: O, state: ParserState): boolean {
-    const { segments, params, idx } = state;
+  function parseSingle<O>(parser: SingleParser<O, any>, output: O, state: ParserState, withMatrix: boolean): boolean {
+    const { multiParams, idx } = state;
+    const segments = withMatrix ? state.plainSegments : state.segments;
     if (parser instanceof Params) {
-      for (const key in parser._params) {
-        if (!parser._params.hasOwnProperty(key)) continue;
-        const item = parser._params[key] as Adapter<any>;
-        const name = getName(item);
-        const defaultValue = getDefaultValue(item);
-        const paramKey = name instanceof Some ? name.value : key;
-        const maybeValue = item.applyOption(params.hasOwnProperty(paramKey) ? some(params[paramKey]) : none).or(
-          defaultValue instanceof Some ? defaultValue : none
-        );
-        if (maybeValue instanceof None) return false;
-        output[key] = maybeValue.value;
-      }
+      const consumed: string[] = [];
+      const failure = parseParams(parser._params, multiParams, '', output, consumed, normalize);
+      if (failure) return fail(failure, idx);
+      state.consumed = state.consumed.concat(consumed);
+      return true;
+    }
+    
+    if (parser instanceof Matrix) {
+      const pairs = idx > 0 && state.matrixIdx === idx - 1 ? state.matrix[idx - 1] : {};
+      const consumed: string[] = [];
+      const failure = parseParams(parser._params, pairs, '', output, consumed, normalize);
+      if (failure) return fail(failure, idx);
+      const unknown = Object.keys(pairs).filter(k => consumed.indexOf(k) === -1);
+      if ((options & Strict) && unknown.length) return fail({ tag: 'UnknownParams', params: unknown }, idx);
       return true;
     }
     
     if (parser instanceof Segment) {
-      if (idx === segments.length) return false;
+      if (idx === segments.length) return fail({ tag: 'MissingSegment', key: parser._key }, idx);
       const segment = segments[idx];
-      const result = parser._adapter.apply(segment);
-      if (result instanceof None) return false;
+      const result = parser._adapter.apply(segment, normalize);
+      if (result instanceof None) return fail({ tag: 'SegmentRejected', key: parser._key, value: segment }, idx);
       output[parser._key] = result.value;
+      if (withMatrix) state.matrixIdx = idx;
       state.idx++;
       return true;
     }
     
-    if (parser instanceof Path) {
-      let mathes = true;
-      for (let i = 0; i < parser._segments.length; i++) if (segments[idx + i] !== parser._segments[i]) { mathes = false; break; }
-      if (!mathes) return false;
-      state.idx += parser._segments.length;
+    if (parser instanceof Rest) {
+      const value = state.segments.slice(idx).join('/');
+      const result = parser._adapter.apply(value, normalize);
+      if (result instanceof None) return fail({ tag: 'SegmentRejected', key: parser._key, value }, idx);
+      output[parser._key] = result.value;
+      state.idx = segments.length;
       return true;
     }
     
-    if (parser instanceof Extra) {
-      Object.assign(output, parser._payload);
+    if (parser instanceof Fragment) {
+      const defaultValue = getDefaultValue(parser._adapter);
+      const maybeValue = parser._adapter.applyOption(state.fragment !== null ? some(state.fragment) : none, normalize).or(defaultValue);
+      if (maybeValue instanceof None) return fail({ tag: 'FragmentRejected', key: parser._key, value: state.fragment }, idx);
+      output[parser._key] = maybeValue.value;
       return true;
     }
-
-    return absurd(parser);
-  }
-
+    
+    if (parser instanceof Host) {
+      const expected = parser._labels.join('.');
+      const actual = state.authority ? state.authority.host : null;
+      const labels = actual !== null ? actual.split('.') : [];
+      if (labels.length !== parser._labels.length) return fail({ tag: 'HostMismatch', expected, actual }, idx);
+      for (let i = 0; i < labels.length; i++) {
+        const key = captureKey(parser._labels[i]);
+        if (key === null) {
+          if (labels[i].toLowerCase() !== parser._labels[i].toLowerCase()) return fail({ tag: 'HostMismatch', expected, actual }, idx);
+          continue;
+        }
+        const result = getCapture(parser, key).apply(labels[i], normalize);
+        if (result instanceof None) return fail({ tag: 'AuthorityRejected', key, value: labels[i] }, idx);
+        output[key] = result.value;
+      }
+      return true;
+    }
+    
+    if (parser instanceof AuthorityPart) {
+      const value = state.authority ? state.authority[parser._part] : null;
+      const maybeValue = parser._adapter.applyOption(value !== null ? some(value) : none, normalize).or(getDefaultValue(parser._adapter));
+      if (maybeValue instanceof None) return fail({ tag: 'AuthorityRejected', key: parser._key, value }, idx);
+      output[parser._key] = maybeValue.value;
+      return true;
+    }
+    
+    if (parser instanceof Path) {
+      for (let i = 0; i < parser._segments.length; i++) {
+        if (segmentsEqual(segments[idx + i], parser._segments[i])) continue;
+        const actual = idx + i < segments.length ? segments[idx + i] : null;
+        return fail({ tag: 'PathMismatch', expected: parser._segments[i], actual }, idx + i);
+      }
+      if (withMatrix) state.matrixIdx = idx + parser._segments.length - 1;
+      state.idx += parser._segments.length;
+      return true;
+    }
+    
+    if (parser instanceof Extra) {
+      Object.assign(output, parser._payload);
+      return true;
+    }
+
+    if (parser instanceof Priority) {
+      return true;
+    }
+
+    return absurd(parser);
+  }
+
+  // Report the reason why parsing failed
+  function fail(failure: ParseFailure, idx: number): false {
+    if (onFailure) onFailure(failure, idx);
+    return false;
+  }
+
+  // Compare path segments according to the matching policy
+  function segmentsEqual(a: string|undefined, b: string): boolean {
+    if (a === undefined) return false;
+    return normalize ? normalize(a) === normalize(b) : a === b;
+  }
+
   // Handle rules that can produce multiple results
-  function parseMultiple<O>(parser: MultipleParser<O, any>, prevOutput: O, prevState: ParserState): Array<[O, ParserState]> {
+  function parseMultiple<O>(parser: MultipleParser<O, any>, prevOutput: O, prevState: ParserState, withMatrix: boolean): Array<[O, ParserState]> {
     if (parser instanceof OneOf) {
       const output: any[] = [];
-      const trie: PrefixTrie = parser._prefixTrie || { '': Object.keys(parser._tags).map(k => parser._tags[k]) };
-      let iter: PrefixTrie = trie;
-      let idx = prevState.idx;
-      const parents: PrefixTrie[] = [];
-      const segments = prevState.segments;
-      do {
-        parents.push(iter);
-        const nextSegment = segments[idx++];
-        if (!iter.hasOwnProperty(nextSegment)) break;
-        iter = iter[nextSegment] as PrefixTrie;
-      } while (1);
-      for (let i = parents.length - 1; i >= 0; i--) {
-        for (const rules of parents[i]['']) {
-          for (const pair of doParse(rules, prevState, options)) {
-            const [route, state] = pair;
-            Object.assign(route, prevOutput);
-            if (!(options & OnlyFirstMatch)) output.push(pair);
-            if ((options & OnlyFirstMatch) && state.idx === state.segments.length) return [pair] as any;
-          }
+      let candidates = lookupCandidates(parser, prevState);
+      if (options & Ranked) {
+        const ranks = candidates.map(rankOf);
+        candidates = candidates.map((rules, i) => i).sort((a, b) => compareRanks(ranks[a], ranks[b]) || a - b).map(i => candidates[i]);
+      }
+      for (const rules of candidates) {
+        for (const pair of doParse(rules, prevState, options, onFailure, program)) {
+          const [route, state] = pair;
+          Object.assign(route, prevOutput);
+          if (!(options & OnlyFirstMatch)) output.push(pair);
+          if ((options & OnlyFirstMatch) && state.idx === state.segments.length && isStrictMatch(state, options)) return [pair] as any;
         }
       }
       return output;
@@ -494,22 +1132,56 @@ export function doParse<O>(parser: Parser<O, any>, state: ParserState, options =
     
     if (parser instanceof Custom) {
       const output = parser._parse(prevState);
+      if (output.length === 0) fail({ tag: 'CustomRejected' }, prevState.idx);
       for (const pair of output) {
         const [route, state] = pair;
         Object.assign(route, prevOutput);
-        if ((options & OnlyFirstMatch) && state.idx === state.segments.length) return [pair] as any;
+        if ((options & OnlyFirstMatch) && state.idx === state.segments.length && isStrictMatch(state, options)) return [pair] as any;
       }
       return (options & OnlyFirstMatch) ? [] : output as any;
     }
 
+    if (parser instanceof OptionalSegment) {
+      const output: Array<[O, ParserState]> = [];
+      const { idx } = prevState;
+      const segments = withMatrix ? prevState.plainSegments : prevState.segments;
+      const result = idx < segments.length ? parser._adapter.apply(segments[idx], normalize) : none;
+      if (result instanceof Some) {
+        const state = prevState.clone();
+        if (withMatrix) state.matrixIdx = idx;
+        state.idx++;
+        output.push([{ ...prevOutput as any, [parser._key]: result.value }, state]);
+      }
+      const defaultValue = getDefaultValue(parser._adapter);
+      if (defaultValue instanceof Some) {
+        output.push([{ ...prevOutput as any, [parser._key]: defaultValue.value }, prevState.clone()]);
+      }
+      return output;
+    }
+
     if (parser instanceof Embed) {
-      const output = doParse(parser._parser, prevState, options);
+      const output = doParse(parser._parser, prevState, options, onFailure, program);
       for (const i in output) {
         output[i][0] = Object.assign({ [parser._key]: output[i][0] }, prevOutput);
       }
       return output as any;
     }
 
+    if (parser instanceof Mount) {
+      const base = splitPath(parser._base());
+      const { segments, idx } = prevState;
+      for (let i = 0; i < base.length; i++) {
+        if (segmentsEqual(segments[idx + i], base[i])) continue;
+        fail({ tag: 'PathMismatch', expected: base[i], actual: idx + i < segments.length ? segments[idx + i] : null }, idx + i);
+        return [];
+      }
+      const state = prevState.clone();
+      state.idx += base.length;
+      const output = doParse(parser._parser, state, options, onFailure, program);
+      for (const pair of output) Object.assign(pair[0], prevOutput);
+      return output;
+    }
+
     if (parser instanceof Merge) {
       // Unreachable code because `makeIterator` never yields `Merge`
       return [];
@@ -517,6 +1189,73 @@ export function doParse<O>(parser: Parser<O, any>, state: ParserState, options =
 
     return absurd(parser);
   }
+
+  // Alternatives of `oneOf` that can match the remaining segments,
+  // the ones with longer static prefix come first
+  function lookupCandidates(parser: OneOf<any, any>, prevState: ParserState): Parser[] {
+    const candidates: Parser[] = [];
+    const segments = prevState.segments;
+    let idx = prevState.idx;
+    const compiled = program && program.tries.get(parser);
+    if (compiled) {
+      const lists: Parser[][] = [];
+      let node = compiled;
+      do {
+        const literal = idx < segments.length ? trieKey(prevState, idx, k => node.literals.hasOwnProperty(k)) : '';
+        const nextSegment = idx < segments.length ? trieKey(prevState, idx++, k => node.children.hasOwnProperty(k)) : '';
+        lists.push(literal !== '' && node.literals.hasOwnProperty(literal) ? node.literals[literal] : node.generic);
+        if (nextSegment === '' || !node.children.hasOwnProperty(nextSegment)) break;
+        node = node.children[nextSegment];
+      } while (1);
+      for (let i = lists.length - 1; i >= 0; i--) candidates.push(...lists[i]);
+      return candidates;
+    }
+    const trie: PrefixTrie = parser._prefixTrie || { '': Object.keys(parser._tags).map(k => parser._tags[k]) };
+    let iter: PrefixTrie = trie;
+    const parents: PrefixTrie[] = [];
+    do {
+      parents.push(iter);
+      const nextSegment = idx < segments.length ? trieKey(prevState, idx++, k => iter.hasOwnProperty(k)) : '';
+      if (nextSegment === '' || !iter.hasOwnProperty(nextSegment)) break;
+      iter = iter[nextSegment] as PrefixTrie;
+    } while (1);
+    for (let i = parents.length - 1; i >= 0; i--) candidates.push(...parents[i]['']);
+    return candidates;
+  }
+}
+
+
+// Folded segment for the lookup in `PrefixTrie`, the segment
+// without matrix parameters is used when the whole one is not found
+function trieKey(state: ParserState, idx: number, has: (key: string) => boolean): string {
+  const key = foldSegment(state.segments[idx]);
+  const plain = foldSegment(state.plainSegments[idx]);
+  return has(key) || !has(plain) ? key : plain;
+}
+
+
+// Implementation of `Parser.prototype.parse`
+function parseFirst<O>(parser: Parser<O, any>, url: string, options: ParseOptions, program?: Program): O|null {
+  const results = doParse(parser, prepareState(url, parser), OnlyFirstMatch | options, undefined, program).filter(([, state]) => isStrictMatch(state, options));
+  return results.length ? results[0][0] : null;
+}
+
+
+// Implementation of `Parser.prototype.parseAll`
+function parseIntermediate<O>(parser: Parser<O, any>, url: string, options: ParseOptions, program?: Program): O[] {
+  const results = doParse(parser, prepareState(url, parser), options, undefined, program).filter(([, state]) => isStrictMatch(state, options)).sort(compareFn);
+  const output: Array<O> = [];
+  let idx = -1;
+  for (const [route, state] of results) {
+    if (idx === state.idx) continue;
+    output.push(route);
+    idx = state.idx;
+  }
+  return output;
+
+  function compareFn(a: [O, ParserState], b: [O, ParserState]): number {
+    return b[1].idx - a[1].idx;
+  }
 }
 
 
@@ -529,16 +1268,14 @@ export function doPrint<I>(parser: Parser<any, I>, route: I): UrlChunks {
   function printHelper(parser: Parser, route: I, output: UrlChunks) {
     const [segments, params] = output;
     if (parser instanceof Params) {
-      for (const key in parser._params) { 
-        if (!parser._params.hasOwnProperty(key)) continue;
-        const adapter = parser._params[key] as Adapter<any>;
-        const defaultValue = getDefaultValue(adapter);
-        if (defaultValue instanceof Some && (!(key in route) || isEqual(route[key], defaultValue.value))) continue;
-        const name = getName(adapter);
-        const paramKey = name instanceof Some ? name.value : key;
-        const maybeValue = adapter.unapplyOption(route[key]);
-        if (maybeValue.isSome()) params[paramKey] = maybeValue.value;
-      }
+      printParams(parser._params, route, '', params);
+      return void 0;
+    }
+    
+    if (parser instanceof Matrix) {
+      if (segments.length === 0) return void 0;
+      const matrix = output[3] = output[3] || [];
+      printParams(parser._params, route, '', matrix[segments.length - 1] = matrix[segments.length - 1] || {});
       return void 0;
     }
     
@@ -549,6 +1286,47 @@ export function doPrint<I>(parser: Parser<any, I>, route: I): UrlChunks {
       return void 0;
     }
     
+    if (parser instanceof Rest) {
+      const defaultValue = getDefaultValue(parser._adapter);
+      const value = parser._key in route ? route[parser._key] : defaultValue instanceof Some ? defaultValue.value : undefined;
+      parser._adapter.unapply(value).split('/').filter(x => x !== '').forEach(x => segments.push(x));
+      return void 0;
+    }
+    
+    if (parser instanceof OptionalSegment) {
+      const defaultValue = getDefaultValue(parser._adapter);
+      if (!(parser._key in route) || (defaultValue instanceof Some && isEqual(route[parser._key], defaultValue.value))) return void 0;
+      segments.push(parser._adapter.unapply(route[parser._key]));
+      return void 0;
+    }
+    
+    if (parser instanceof Fragment) {
+      const defaultValue = getDefaultValue(parser._adapter);
+      if (defaultValue instanceof Some && (!(parser._key in route) || isEqual(route[parser._key], defaultValue.value))) return void 0;
+      const maybeValue = parser._adapter.unapplyOption(route[parser._key]);
+      if (maybeValue.isSome()) output[2] = maybeValue.value;
+      return void 0;
+    }
+    
+    if (parser instanceof Host) {
+      getAuthority(output).host = parser._labels.map(label => {
+        const key = captureKey(label);
+        if (key === null) return label;
+        const adapter = getCapture(parser, key);
+        const defaultValue = getDefaultValue(adapter);
+        return adapter.unapply(key in route ? route[key] : defaultValue instanceof Some ? defaultValue.value : undefined);
+      }).join('.');
+      return void 0;
+    }
+    
+    if (parser instanceof AuthorityPart) {
+      const defaultValue = getDefaultValue(parser._adapter);
+      if (defaultValue instanceof Some && (!(parser._key in route) || isEqual(route[parser._key], defaultValue.value))) return void 0;
+      const maybeValue = parser._adapter.unapplyOption(route[parser._key]);
+      if (maybeValue.isSome()) getAuthority(output)[parser._part] = maybeValue.value;
+      return void 0;
+    }
+    
     if (parser instanceof Path) {
       parser._segments.forEach(x => segments.push(x));
       return void 0;
@@ -559,15 +1337,16 @@ export function doPrint<I>(parser: Parser<any, I>, route: I): UrlChunks {
       return void 0;
     }
     
-    if (parser instanceof Extra) {
+    if (parser instanceof Extra || parser instanceof Priority) {
       return void 0;
     }
 
     if (parser instanceof Custom) {
-      for (const chunks of parser._print(route)) {
-        chunks[0].forEach(x => segments.push(x));
-        Object.assign(params, chunks[1]);
-      }
+      const [customSegments, customParams, customFragment, , customAuthority] = parser._print(route);
+      customSegments.forEach(x => segments.push(x));
+      Object.assign(params, customParams);
+      if (customFragment !== undefined) output[2] = customFragment;
+      if (customAuthority !== undefined) Object.assign(getAuthority(output), customAuthority);
       return void 0;
     }
 
@@ -576,6 +1355,12 @@ export function doPrint<I>(parser: Parser<any, I>, route: I): UrlChunks {
       return void 0;
     }
 
+    if (parser instanceof Mount) {
+      splitPath(parser._base()).forEach(x => segments.push(x));
+      printHelper(parser._parser, route, output);
+      return void 0;
+    }
+
     if (parser instanceof Merge) {
       printHelper(parser._first, route, output);
       printHelper(parser._second, route, output);
@@ -583,24 +1368,261 @@ export function doPrint<I>(parser: Parser<any, I>, route: I): UrlChunks {
     }
 
     return absurd(parser);
-  }  
+  }
+
+  function getAuthority(output: UrlChunks): Authority {
+    return output[4] = output[4] || { scheme: null, host: '', port: null };
+  }
 }
 
 
-/** Options for `doParse` */
+// Check that `doPrint` will produce url that can be parsed back to
+// the same route
+function validateRoute<I>(parser: Parser<any, I>, route: I): PrintFailure|null {
+  const fields = route || {};
+
+  if (parser instanceof Params || parser instanceof Matrix) {
+    return validateParams(parser._params, fields);
+  }
+
+  if (parser instanceof Segment || parser instanceof Rest) {
+    const defaultValue = getDefaultValue(parser._adapter);
+    const value = parser._key in fields ? fields[parser._key] : defaultValue instanceof Some ? defaultValue.value : undefined;
+    if (value === undefined) return { tag: 'MissingField', key: parser._key };
+    const { _key: key, _adapter: adapter } = parser;
+    return parser instanceof Segment
+      ? validateValue(key, value, () => some(adapter.unapply(value)), printed => printed !== '' ? adapter.apply(printed) : none)
+      : validateValue(key, value, () => some(adapter.unapply(value)), printed => adapter.apply(splitPath(printed).join('/')));
+  }
+
+  if (parser instanceof OptionalSegment) {
+    const { _key: key, _adapter: adapter } = parser;
+    const defaultValue = getDefaultValue(adapter);
+    if (!(key in fields) || (defaultValue instanceof Some && isEqual(fields[key], defaultValue.value))) return null;
+    return validateValue(key, fields[key], () => some(adapter.unapply(fields[key])), printed => printed !== '' ? adapter.apply(printed) : none);
+  }
+
+  if (parser instanceof Fragment || parser instanceof AuthorityPart) {
+    const { _key: key, _adapter: adapter } = parser;
+    const defaultValue = getDefaultValue(adapter);
+    if (!(key in fields)) return defaultValue instanceof Some || adapter.applyOption(none) instanceof Some ? null : { tag: 'MissingField', key };
+    if (defaultValue instanceof Some && isEqual(fields[key], defaultValue.value)) return null;
+    return validateValue(key, fields[key], () => adapter.unapplyOption(fields[key]), printed => adapter.applyOption(some(printed)));
+  }
+
+  if (parser instanceof Host) {
+    for (const key of captureKeys(parser)) {
+      const adapter = getCapture(parser, key);
+      const defaultValue = getDefaultValue(adapter);
+      const value = key in fields ? fields[key] : defaultValue instanceof Some ? defaultValue.value : undefined;
+      if (value === undefined) return { tag: 'MissingField', key };
+      const failure = validateValue(key, value, () => some(adapter.unapply(value)), printed => printed !== '' && printed.indexOf('.') === -1 ? adapter.apply(printed.toLowerCase()) : none);
+      if (failure !== null) return failure;
+    }
+    return null;
+  }
+
+  if (parser instanceof Path || parser instanceof Extra || parser instanceof Priority || parser instanceof Custom) {
+    return null;
+  }
+
+  if (parser instanceof OneOf) {
+    const tag = fields['tag'];
+    if (typeof(tag) !== 'string' || !parser._tags.hasOwnProperty(tag)) return { tag: 'UnknownTag', value: tag };
+    return validateRoute(parser._tags[tag], route);
+  }
+
+  if (parser instanceof Embed) {
+    if (typeof(fields[parser._key]) !== 'object' || fields[parser._key] === null) return { tag: 'MissingField', key: parser._key };
+    return validateRoute(parser._parser, fields[parser._key]);
+  }
+
+  if (parser instanceof Mount) {
+    return validateRoute(parser._parser, route);
+  }
+
+  if (parser instanceof Merge) {
+    return validateRoute(parser._first, route) || validateRoute(parser._second, route);
+  }
+
+  return absurd(parser);
+}
+
+
+/**
+ * Static analysis of the route table. Reports tags declared more
+ * than once, alternatives that can never match because an earlier
+ * one with the same static prefix accepts all of their urls,
+ * alternatives whose urls overlap so the result depends on the order
+ * of declaration, and output keys defined by several parsers of the
+ * same route. Nested `oneOf` (inside `embed` or `mount`) are checked
+ * as well. Returns empty array if no problems were found
+ * 
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Item').path('/shop').segment('id', r.nestring),
+ *   r.tag('Sale').path('/shop').segment('id', r.nat),
+ *   r.tag('Search').path('/search').segment('q', r.nestring).params({ q: r.string }),
+ * );
+ * console.log(lint(parser)); // => [{ tag: "KeyCollision", route: "Search", key: "q" }, { tag: "Shadowed", route: "Sale", by: "Item" }]
+ * ```
+ */
+export function lint(parser: Parser<any, any>): LintIssue[] {
+  const issues: LintIssue[] = [];
+  if (!(parser instanceof OneOf)) lintKeys(null, parser);
+  lintNested(parser);
+  return issues;
+
+  function lintNested(parser: Parser<any, any>): void {
+    traverseParsers(parser, p => {
+      if (p instanceof OneOf) lintOneOf(p);
+      else if (p instanceof Embed || p instanceof Mount) lintNested(p._parser);
+    });
+  }
+
+  function lintOneOf(parser: OneOf<any, any>): void {
+    const tags = Object.keys(parser._tags);
+    const shapes = tags.map(tag => routeShapes(parser._tags[tag]));
+    parser._duplicates.forEach(route => issues.push({ tag: 'DuplicateTag', route }));
+    for (const tag of tags) {
+      lintKeys(tag, parser._tags[tag]);
+      lintNested(parser._tags[tag]);
+    }
+    for (let j = 0; j < tags.length; j++) {
+      for (let i = 0; i < j; i++) {
+        const [first, second] = [shapes[i], shapes[j]];
+        if (first === null || second === null || first.depth !== second.depth) continue;
+        if (second.variants.every(b => first.variants.some(a => shapeCovers(a, b)))) {
+          issues.push({ tag: 'Shadowed', route: tags[j], by: tags[i] });
+        } else if (second.variants.some(b => first.variants.some(a => shapesOverlap(a, b)))) {
+          issues.push({ tag: 'Ambiguous', routes: [tags[i], tags[j]] });
+        }
+      }
+    }
+  }
+
+  function lintKeys(route: string|null, parser: Parser<any, any>): void {
+    const counts: Record<string, number> = {};
+    traverseParsers(parser, p => outputKeys(p).forEach(key => counts[key] = (counts[key] || 0) + 1));
+    for (const key in counts) if (counts[key] > 1) issues.push({ tag: 'KeyCollision', route, key });
+  }
+}
+
+
+/**
+ * Options for `doParse`. `Strict`, `CaseInsensitive`,
+ * `NormalizeUnicode` and `Ranked` can be passed to
+ * `Parser.prototype.parse`. `CaseInsensitive` and `NormalizeUnicode`
+ * define matching policy for `path` segments and `literals`, `print`
+ * still uses spelling from the declaration. Trailing and duplicate
+ * slashes are always ignored. `Ranked` makes `oneOf` try alternatives
+ * in the order of specificity instead of the order of declaration:
+ * static segments beat `literals`, which beat other segments, which
+ * beat `rest` (see also `Parser.prototype.priority`)
+ * 
+ * ```ts
+ * const parser = r.path('/shop').segment('category', r.literals('Books', 'Music'));
+ * console.log(parser.parse('/SHOP/books')); // => null
+ * console.log(parser.parse('/SHOP/books/', r.ParseOptions.CaseInsensitive)); // => { category: "Books" }
+ * const routes = r.oneOf(
+ *   r.tag('Item').path('/shop').segment('id', r.nestring),
+ *   r.tag('Category').path('/shop').segment('category', r.literals('Books', 'Music')),
+ * );
+ * console.log(routes.parse('/shop/Books')); // => { tag: "Item", id: "Books" }
+ * console.log(routes.parse('/shop/Books', r.ParseOptions.Ranked)); // => { tag: "Category", category: "Books" }
+ * ```
+ */
 export enum ParseOptions {
   OnlyFirstMatch = 0x1 << 0,
   AllSegmentsConsumed = 0x1 << 1,
+  Strict = 0x1 << 2,
+  CaseInsensitive = 0x1 << 3,
+  NormalizeUnicode = 0x1 << 4,
+  Ranked = 0x1 << 5,
 }
-const { OnlyFirstMatch, AllSegmentsConsumed } = ParseOptions;
+const { OnlyFirstMatch, AllSegmentsConsumed, Strict, CaseInsensitive, NormalizeUnicode, Ranked } = ParseOptions;
 
 
 /**
  * Deconstructed url. The first element of the tuple is the list of
- * path segments and the second is query string dictionary. This type
+ * path segments, the second is query string dictionary (arrays
+ * are printed as repeated keys), the optional third is url fragment,
+ * the optional fourth contains matrix parameters for each segment
+ * and the optional fifth is the authority of absolute url. This type
  * is used as the result type of `doPrint`
  */
-export type UrlChunks = [string[], Record<string, string>];
+export type UrlChunks = [string[], Record<string, string|string[]>, string?, Array<Record<string, string|string[]>>?, Authority?];
+
+
+/** Scheme, host and port of absolute url */
+export interface Authority {
+  scheme: string|null;
+  host: string;
+  port: string|null;
+}
+
+
+/** Result of `Parser.prototype.explain` */
+export interface Explanation {
+  tag: string|null;
+  matched: boolean;
+  idx: number;
+  failure: ParseFailure|null;
+}
+
+
+/** The reason why parser didn't match the url */
+export type ParseFailure =
+  | { tag: 'PathMismatch', expected: string, actual: string|null }
+  | { tag: 'MissingSegment', key: string }
+  | { tag: 'SegmentRejected', key: string, value: string }
+  | { tag: 'MissingParam', key: string, name: string }
+  | { tag: 'ParamRejected', key: string, name: string, values: string[] }
+  | { tag: 'FragmentRejected', key: string, value: string|null }
+  | { tag: 'HostMismatch', expected: string, actual: string|null }
+  | { tag: 'AuthorityRejected', key: string, value: string|null }
+  | { tag: 'CustomRejected' }
+  | { tag: 'UnconsumedSegments', segments: string[] }
+  | { tag: 'UnknownParams', params: string[] }
+  ;
+
+
+/** Problem in the route table found by `lint` */
+export type LintIssue =
+  | { tag: 'DuplicateTag', route: string }
+  | { tag: 'Shadowed', route: string, by: string }
+  | { tag: 'Ambiguous', routes: [string, string] }
+  | { tag: 'KeyCollision', route: string|null, key: string }
+  ;
+
+
+/** Result of `Parser.prototype.printSafe` */
+export type PrintResult =
+  | { tag: 'Printed', url: string }
+  | { tag: 'Rejected', failure: PrintFailure }
+  ;
+
+
+/** The reason why `Parser.prototype.printSafe` rejected the route */
+export type PrintFailure =
+  | { tag: 'UnknownTag', value: unknown }
+  | { tag: 'MissingField', key: string }
+  | { tag: 'ValueRejected', key: string, value: unknown, printed: string|string[]|null }
+  | { tag: 'Mismatch', url: string, parsed: unknown }
+  ;
+
+
+// Callback for collecting failures in `doParse`, `idx` is the
+// position of the segment where the failure occurred
+export type OnFailure = (failure: ParseFailure, idx: number) => void;
+
+
+/** Result of `Parser.prototype.canonicalize` */
+export interface Canonical<O> {
+  route: O;
+  canonicalUrl: string;
+  isCanonical: boolean;
+}
 
 
 /**
@@ -613,16 +1635,46 @@ export interface PrefixTrie {
 }
 
 
+// Precomputed data for `doParse`, see `compile`
+export interface Program {
+  rules: Map<Parser<any, any>, Parser<any, any>[]>; // Flattened `Merge` trees
+  tries: Map<OneOf<any, any>, CompiledTrie>;
+}
+
+
+// `PrefixTrie` with alternatives additionally indexed by the values
+// of the `literals` segment following the static prefix. Lists in
+// `literals` also include `generic` alternatives, all lists preserve
+// the order of declaration
+export interface CompiledTrie {
+  children: Record<string, CompiledTrie>;
+  generic: Parser[];
+  literals: Record<string, Parser[]>;
+}
+
+
 // Internal parser state
 export class ParserState {
   constructor(
     public segments: string[],
     public params: Record<string, string>,
     public idx: number,
+    public fragment: string|null = null,
+    public multiParams: Record<string, string[]> = toMultiParams(params),
+    public consumed: string[] = [],
+    public matrix: Array<Record<string, string[]>> = [],
+    public authority: Authority|null = null,
+    public plainSegments: string[] = segments, // Segments without matrix parameters
+    public matrixIdx: number = -1, // Segment consumed by the rule right before `Matrix`
   ) {}
 
   clone() {
-    return new ParserState(this.segments, this.params, this.idx);
+    return new ParserState(this.segments, this.params, this.idx, this.fragment, this.multiParams, this.consumed, this.matrix, this.authority, this.plainSegments, this.matrixIdx);
+  }
+
+  /** Query parameters that weren't consumed by any parser */
+  unknownParams(): string[] {
+    return Object.keys(this.multiParams).filter(k => this.consumed.indexOf(k) === -1);
   }
 }
 
@@ -630,23 +1682,173 @@ export class ParserState {
 // -- helpers --
 
 
+// Make normalization function for `CaseInsensitive` and
+// `NormalizeUnicode` flags, `undefined` means exact matching
+function makeNormalize(options: ParseOptions): Normalize|undefined {
+  const nfc = !!(options & NormalizeUnicode);
+  const lower = !!(options & CaseInsensitive);
+  if (!nfc && !lower) return undefined;
+  return s => {
+    const normalized = nfc ? s.normalize('NFC') : s;
+    return lower ? normalized.toLowerCase() : normalized;
+  };
+}
+
+
+// Keys of `PrefixTrie` are folded so that the same trie can be used
+// with any matching policy, `Path` checks segments precisely
+function foldSegment(s: string): string {
+  return s.normalize('NFC').toLowerCase();
+}
+
+
+// Check that all query parameters were consumed if `Strict` flag is set
+function isStrictMatch(state: ParserState, options: ParseOptions): boolean {
+  return !(options & Strict) || state.unknownParams().length === 0;
+}
+
+
+// Query parameters with all values for each key
+function toMultiParams(params: Record<string, string>): Record<string, string[]> {
+  return Object.keys(params).reduce<Record<string, string[]>>((acc, k) => (acc[k] = [params[k]], acc), {});
+}
+
+
 // Result type for `Parser.prototype.segment`
 export type SegmentParser<O, I, K extends string, A extends Adapter<any>>
   = Parser<O & { [K_ in K]: A['_A'] }, I & InParams<{ [K_ in K]: A }>>;
 
 
 // Result type for `Parser.prototype.params`
-export type ParamsParser<O, I, R extends Record<string, Adapter<any>>>
+export type ParamsParser<O, I, R extends ParamsRecord>
   = Parser<O & OutParams<R>, I & InParams<R>>;
 
 
-export type InParams<R extends Record<string, Adapter<any, any>>> = {
-  [K in keyof R]: R[K] extends Adapter<infer A, { hasDefault }> ? { [K_ in K]?: A } : R[K] extends Adapter<infer A, any> ? { [K_ in K]: A } : never;
+// Argument of `Parser.prototype.params`
+export type ParamsRecord = Record<string, Adapter<any, any>|Group<any, any>>;
+
+
+export type InParams<R extends ParamsRecord> = {
+  [K in keyof R]: R[K] extends Group<any, infer GI, { hasDefault: true }> ? { [K_ in K]?: GI } : R[K] extends Group<any, infer GI> ? { [K_ in K]: GI } : R[K] extends Adapter<infer A, { hasDefault }> ? { [K_ in K]?: A } : R[K] extends Adapter<infer A, any> ? { [K_ in K]: A } : never;
 }[keyof R];
 
 
+// Group can be omitted from the input when all of its parameters
+// have default values
+export type GroupFlags<R extends ParamsRecord> = {
+  [K in keyof R]: R[K] extends Group<any, any, { hasDefault: true }> ? never : R[K] extends Adapter<any, { hasDefault: true }> ? never : K;
+}[keyof R] extends never ? { hasDefault: true } : {};
+
+
 export type OutParams<R> = {
-  [K in keyof R]: R[K] extends Adapter<infer A, any> ? A : never;
+  [K in keyof R]: R[K] extends Group<infer GO, any> ? GO : R[K] extends Adapter<infer A, any> ? A : never;
+}
+
+
+// Result type of `route`
+export type RouteOut<T> = UnionToIntersection<{
+  [N in keyof T]: T[N] extends [infer K, Adapter<infer A, any>] ? { [K_ in K & string]: A } : never;
+}[Extract<keyof T, number>]>;
+
+
+// Input type of `route`, fields with default values are optional
+export type RouteIn<T> = UnionToIntersection<{
+  [N in keyof T]: T[N] extends [infer K, Adapter<infer A, { hasDefault }>] ? { [K_ in K & string]?: A } : T[N] extends [infer K, Adapter<infer A, any>] ? { [K_ in K & string]: A } : never;
+}[Extract<keyof T, number>]>;
+
+
+// Parse query parameters described by `record` into `output`,
+// `prefix` is non-empty for the parameters inside a `Group`
+function parseParams(record: ParamsRecord, multiParams: Record<string, string[]>, prefix: string, output: any, consumed: string[], normalize?: Normalize): ParseFailure|null {
+  for (const key in record) {
+    if (!record.hasOwnProperty(key)) continue;
+    const item = record[key];
+    if (item instanceof Group) {
+      const nested = {};
+      const failure = parseParams(item._params, multiParams, prefixKey(prefix, key), nested, consumed, normalize);
+      if (failure) return failure;
+      output[key] = nested;
+      continue;
+    }
+    const name = getName(item);
+    const defaultValue = getDefaultValue(item);
+    const paramKey = prefixKey(prefix, name instanceof Some ? name.value : key);
+    const values = multiParams.hasOwnProperty(paramKey) ? multiParams[paramKey] : [];
+    const maybeValue = item.applyMany(values, normalize).or(
+      defaultValue instanceof Some ? defaultValue : none
+    );
+    if (maybeValue instanceof None) return values.length ? { tag: 'ParamRejected', key, name: paramKey, values } : { tag: 'MissingParam', key, name: paramKey };
+    output[key] = maybeValue.value;
+    consumed.push(paramKey);
+  }
+  return null;
+}
+
+
+// Inverse of `parseParams`
+function printParams(record: ParamsRecord, route: any, prefix: string, params: Record<string, string|string[]>): void {
+  for (const key in record) {
+    if (!record.hasOwnProperty(key)) continue;
+    const item = record[key];
+    if (item instanceof Group) {
+      printParams(item._params, route[key] || {}, prefixKey(prefix, key), params);
+      continue;
+    }
+    const defaultValue = getDefaultValue(item);
+    if (defaultValue instanceof Some && (!(key in route) || isEqual(route[key], defaultValue.value))) continue;
+    const name = getName(item);
+    const paramKey = prefixKey(prefix, name instanceof Some ? name.value : key);
+    const values = item.unapplyMany(route[key]);
+    if (values.length) params[paramKey] = values.length === 1 ? values[0] : values;
+  }
+}
+
+
+// Fill in default values of query parameters
+function paramsToOutput(record: ParamsRecord, input: any): any {
+  const output = { ...input };
+  for (const k in record) {
+    const item = record[k];
+    if (item instanceof Group) {
+      output[k] = paramsToOutput(item._params, output[k] || {});
+    } else if (!(k in output)) {
+      const maybeDefault = getDefaultValue(item);
+      if (maybeDefault.isSome()) output[k] = maybeDefault.value;
+    }
+  }
+  return output;
+}
+
+
+// Check query parameters of the route for `printSafe`
+function validateParams(record: ParamsRecord, route: any): PrintFailure|null {
+  for (const key in record) {
+    const item = record[key];
+    if (item instanceof Group) {
+      const failure = validateParams(item._params, route[key] || {});
+      if (failure !== null) return failure;
+      continue;
+    }
+    const defaultValue = getDefaultValue(item);
+    if (defaultValue instanceof Some && (!(key in route) || isEqual(route[key], defaultValue.value))) continue;
+    if (!(key in route)) return { tag: 'MissingField', key };
+    const failure = validateValue(key, route[key], () => some(item.unapplyMany(route[key])), printed => item.applyMany(printed));
+    if (failure !== null) return failure;
+  }
+  return null;
+}
+
+
+// Check that printed value is parsed back to the same value,
+// exceptions thrown by adapters count as rejection
+function validateValue<S extends string|string[]>(key: string, value: unknown, print: () => Option<S>, parse: (printed: S) => Option<unknown>): PrintFailure|null {
+  let printed: Option<S> = none;
+  try {
+    printed = print();
+    const parsed = printed instanceof Some ? parse(printed.value) : none;
+    if (parsed instanceof Some && isEqual(parsed.value, value)) return null;
+  } catch (e) {}
+  return { tag: 'ValueRejected', key, value, printed: printed instanceof Some ? printed.value : null };
 }
 
 
@@ -657,7 +1859,7 @@ function buildTrie<O, I>(tags: Record<string, Parser<O, I>>): PrefixTrie {
     let iter: PrefixTrie = trie;
     for (const parser of Array.from(makeIterator(tags[k]))) {
       if (!(parser instanceof Path)) break;
-      for (const s of parser._segments) { iter[s] = iter[s] || { '': [] }; iter = iter[s] as PrefixTrie; }
+      for (const s of parser._segments.map(foldSegment)) { iter[s] = iter[s] || { '': [] }; iter = iter[s] as PrefixTrie; }
     }
     iter[''].push(tags[k]);
   }
@@ -673,12 +1875,6 @@ const prettyUriEncode: (str: string) => string = function () {
 }();
 
 
-// https://stackoverflow.com/a/9310752
-function escapeRegExp(text) {
-  return text.replace(/[-[\]{}()*+?.,\\^$|#\s]/g, '\\$&');
-}
-
-
 // All parsers except `Merge`
 export type PrimitiveParser<O={}, I=O> = OmitMerge<Parser<O, I>>;
 export type OmitMerge<T> = T extends Merge<any, any> ? never : T;
@@ -695,32 +1891,323 @@ export function traverseParsers<O, I>(parser: Parser<O, I>, iteratee: (parser: P
 }
 
 
-function getDefaultValue<A>(adapter: Adapter<A>): Option<A> {
-  if (adapter instanceof DefaultAdapter) return some(adapter._default);
-  if (adapter instanceof CustomAdapter) return none;
-  if (adapter instanceof NamedAdapter) return getDefaultValue(adapter._adapter);
-  if (adapter instanceof DimapAdapter) return getDefaultValue(adapter._adapter).map(adapter._map);
-  if (adapter instanceof HasAdapter) return getDefaultValue(adapter.toAdapter());
-  return absurd(adapter);
+// Url shapes accepted by an alternative of `oneOf` as seen by
+// `lint`. Each `OptionalSegment` doubles the number of
+// variants. `null` means the shape cannot be analysed statically
+interface RouteShapes {
+  depth: number; // Number of segments in the `PrefixTrie`
+  variants: Shape[];
+}
+
+interface Shape {
+  segments: Array<string|Adapter<any>>; // Static segments and captures
+  rest: Adapter<any>|null;
+  required: string[]; // Query parameters without defaults
+}
+
+
+function routeShapes(parser: Parser<any, any>): RouteShapes|null {
+  const rules = Array.from(makeIterator(parser));
+  let depth = 0;
+  for (const rule of rules) {
+    if (!(rule instanceof Path)) break;
+    depth += rule._segments.length;
+  }
+  let variants: Shape[] = [{ segments: [], rest: null, required: [] }];
+  for (const rule of rules) {
+    if (rule instanceof Embed || rule instanceof Mount || rule instanceof OneOf || rule instanceof Custom || rule instanceof Host) return null;
+    if ((rule instanceof Path || rule instanceof Segment || rule instanceof OptionalSegment || rule instanceof Rest) && variants.some(v => v.rest !== null)) return null;
+    if (rule instanceof Path) variants.forEach(v => v.segments.push(...rule._segments));
+    if (rule instanceof Segment) variants.forEach(v => v.segments.push(rule._adapter));
+    if (rule instanceof Rest) variants.forEach(v => v.rest = rule._adapter);
+    if (rule instanceof Params) variants.forEach(v => v.required.push(...requiredParams(rule._params, '')));
+    if (rule instanceof OptionalSegment) {
+      variants = variants.concat(variants.map(v => ({ ...v, segments: [...v.segments, rule._adapter], required: [...v.required] })));
+    }
+  }
+  return { depth, variants };
+}
+
+
+function requiredParams(record: ParamsRecord, prefix: string): string[] {
+  const output: string[] = [];
+  for (const key in record) {
+    const item = record[key];
+    if (item instanceof Group) { output.push(...requiredParams(item._params, prefixKey(prefix, key))); continue; }
+    const name = getName(item);
+    if (getDefaultValue(item) instanceof None) output.push(prefixKey(prefix, name instanceof Some ? name.value : key));
+  }
+  return output;
+}
+
+
+// Every url matching `b` also matches `a`
+function shapeCovers(a: Shape, b: Shape): boolean {
+  if (!a.required.every(x => b.required.indexOf(x) !== -1)) return false;
+  for (let i = 0; i < b.segments.length; i++) {
+    if (i >= a.segments.length) return a.rest !== null && isTotal(a.rest);
+    if (!segmentCovers(a.segments[i], b.segments[i])) return false;
+  }
+  if (a.segments.length > b.segments.length) return false;
+  if (b.rest !== null) return a.rest !== null && (a.rest === b.rest || isTotal(a.rest));
+  return a.rest === null || a.rest.apply('') instanceof Some;
+}
+
+
+// There is an url that matches both `a` and `b`
+function shapesOverlap(a: Shape, b: Shape): boolean {
+  for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+    if (!segmentsOverlap(a.segments[i], b.segments[i])) return false;
+  }
+  if (a.segments.length < b.segments.length) return a.rest !== null;
+  if (a.segments.length > b.segments.length) return b.rest !== null;
+  if (a.rest === null && b.rest !== null) return b.rest.apply('') instanceof Some;
+  if (a.rest !== null && b.rest === null) return a.rest.apply('') instanceof Some;
+  return true;
+}
+
+
+function segmentCovers(a: string|Adapter<any>, b: string|Adapter<any>): boolean {
+  const bValues = typeof(b) === 'string' ? [b] : getLiterals(b);
+  if (bValues !== null) return bValues.every(x => typeof(a) === 'string' ? a === x : a.apply(x) instanceof Some);
+  if (typeof(a) === 'string') return false;
+  return a === b || isTotal(a);
+}
+
+
+function segmentsOverlap(a: string|Adapter<any>, b: string|Adapter<any>): boolean {
+  const aValues = typeof(a) === 'string' ? [a] : getLiterals(a);
+  const bValues = typeof(b) === 'string' ? [b] : getLiterals(b);
+  if (aValues !== null) return aValues.some(x => bValues !== null ? bValues.indexOf(x) !== -1 : (b as Adapter<any>).apply(x) instanceof Some);
+  if (bValues !== null) return bValues.some(x => (a as Adapter<any>).apply(x) instanceof Some);
+  return true;
+}
+
+
+// Adapter accepts any non-empty segment
+function isTotal(adapter: Adapter<any>): boolean {
+  if (adapter instanceof NamedAdapter || adapter instanceof DefaultAdapter) return isTotal(adapter._adapter);
+  return adapter === stringAdapter || adapter === nestring;
+}
+
+
+// Fields of the output produced by a parser
+function outputKeys(parser: PrimitiveParser<unknown>): string[] {
+  if (parser instanceof Params || parser instanceof Matrix) return Object.keys(parser._params);
+  if (parser instanceof Segment || parser instanceof Rest || parser instanceof OptionalSegment) return [parser._key];
+  if (parser instanceof Fragment || parser instanceof AuthorityPart || parser instanceof Embed) return [parser._key];
+  if (parser instanceof Host) return captureKeys(parser);
+  if (parser instanceof Extra) return Object.keys(parser._payload);
+  return [];
+}
+
+
+// Specificity of an alternative of `oneOf` for `ParseOptions.Ranked`,
+// one number per path segment: 3 for static segments, 2 for
+// `literals`, 1 for other adapters and 0 for `rest`
+interface Rank {
+  priority: number;
+  specificity: number[];
+}
+
+
+function rankOf(parser: Parser<any, any>): Rank {
+  let priority = 0;
+  const specificity: number[] = [];
+  for (const rule of Array.from(makeIterator(parser))) {
+    if (rule instanceof Path) rule._segments.forEach(() => specificity.push(3));
+    if (rule instanceof Segment || rule instanceof OptionalSegment) specificity.push(getLiterals(rule._adapter) !== null ? 2 : 1);
+    if (rule instanceof Rest) specificity.push(0);
+    if (rule instanceof Priority) priority = rule._priority;
+  }
+  return { priority, specificity };
+}
+
+
+// Negative if `a` should be tried before `b`. When specificity of
+// one route is the prefix of another, the remaining segments of the
+// longer one are optional, so the shorter one wins
+function compareRanks(a: Rank, b: Rank): number {
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  for (let i = 0; i < Math.min(a.specificity.length, b.specificity.length); i++) {
+    if (a.specificity[i] !== b.specificity[i]) return b.specificity[i] - a.specificity[i];
+  }
+  return a.specificity.length - b.specificity.length;
+}
+
+
+// Path segments of a route as seen by `Parser.prototype.ancestors`,
+// `path` is the location of the field inside the route
+type PathElement =
+  | { tag: 'Literal', value: string }
+  | { tag: 'Capture', path: string[], value: unknown }
+  ;
+
+
+// One of the possible routes of a parser with blank captures and
+// the list of other fields with the flag telling if the field is
+// required
+interface Skeleton {
+  route: object;
+  elements: Array<{ tag: 'Literal', value: string }|{ tag: 'Capture', path: string[] }>;
+  fields: Array<[string[], boolean]>;
+}
+
+
+// `null` if the route contains `Custom` parsers or unknown tags
+function routeElements(parser: Parser<any, any>, route: any, path: string[]): PathElement[]|null {
+  const output: PathElement[] = [];
+  for (const rule of Array.from(makeIterator(parser))) {
+    if (rule instanceof Path) {
+      rule._segments.forEach(value => output.push({ tag: 'Literal', value }));
+    } else if (rule instanceof Segment || rule instanceof Rest || rule instanceof OptionalSegment) {
+      const defaultValue = getDefaultValue(rule._adapter);
+      const isPrinted = rule instanceof OptionalSegment ? rule._key in route && !(defaultValue instanceof Some && isEqual(route[rule._key], defaultValue.value)) : true;
+      const value = rule._key in route ? route[rule._key] : defaultValue instanceof Some ? defaultValue.value : undefined;
+      if (isPrinted) output.push({ tag: 'Capture', path: [...path, rule._key], value });
+    } else if (rule instanceof Mount) {
+      const elements = routeElements(rule._parser, route, path);
+      if (elements === null) return null;
+      splitPath(rule._base()).forEach(value => output.push({ tag: 'Literal', value }));
+      output.push(...elements);
+    } else if (rule instanceof Embed) {
+      const elements = route[rule._key] ? routeElements(rule._parser, route[rule._key], [...path, rule._key]) : null;
+      if (elements === null) return null;
+      output.push(...elements);
+    } else if (rule instanceof OneOf) {
+      const elements = rule._tags.hasOwnProperty(route['tag']) ? routeElements(rule._tags[route['tag']], route, path) : null;
+      if (elements === null) return null;
+      output.push(...elements);
+    } else if (rule instanceof Custom) {
+      return null;
+    }
+  }
+  return output;
+}
+
+
+function routeSkeletons(parser: Parser<any, any>, path: string[]): Skeleton[] {
+  const empty: Skeleton = { route: {}, elements: [], fields: [] };
+  return expandParser(parser, empty, choices, concatSkeletons);
+
+  function choices(rule: PrimitiveParser<unknown>): Skeleton[] {
+    if (rule instanceof Path) {
+      return [{ ...empty, elements: rule._segments.map(value => ({ tag: 'Literal' as 'Literal', value })) }];
+    }
+    if (rule instanceof Segment || rule instanceof Rest || rule instanceof OptionalSegment) {
+      const capture: Skeleton = { ...empty, elements: [{ tag: 'Capture', path: [...path, rule._key] }] };
+      return rule instanceof OptionalSegment ? [capture, empty] : [capture];
+    }
+    if (rule instanceof Params || rule instanceof Matrix) {
+      return [{ ...empty, fields: paramsFields(rule._params, path) }];
+    }
+    if (rule instanceof Fragment || rule instanceof AuthorityPart) {
+      const isRequired = getDefaultValue(rule._adapter) instanceof None && rule._adapter.applyOption(none) instanceof None;
+      return [{ ...empty, fields: [[[...path, rule._key], isRequired]] }];
+    }
+    if (rule instanceof Host) {
+      return [{ ...empty, fields: captureKeys(rule).map<[string[], boolean]>(k => [[...path, k], getDefaultValue(getCapture(rule, k)) instanceof None]) }];
+    }
+    if (rule instanceof Extra) {
+      return [{ ...empty, route: rule._payload }];
+    }
+    if (rule instanceof Mount) {
+      const base = splitPath(rule._base()).map(value => ({ tag: 'Literal' as 'Literal', value }));
+      return routeSkeletons(rule._parser, path).map(s => ({ ...s, elements: [...base, ...s.elements] }));
+    }
+    if (rule instanceof Embed) {
+      return routeSkeletons(rule._parser, [...path, rule._key]).map(s => ({ ...s, route: { [rule._key]: s.route } }));
+    }
+    if (rule instanceof OneOf) {
+      return Object.keys(rule._tags).reduce<Skeleton[]>((acc, tag) => acc.concat(routeSkeletons(rule._tags[tag], path)), []);
+    }
+    return rule instanceof Priority ? [empty] : [];
+  }
+}
+
+
+function concatSkeletons(a: Skeleton, b: Skeleton): Skeleton {
+  return { route: { ...a.route, ...b.route }, elements: [...a.elements, ...b.elements], fields: [...a.fields, ...b.fields] };
+}
+
+
+function paramsFields(record: ParamsRecord, path: string[]): Array<[string[], boolean]> {
+  const output: Array<[string[], boolean]> = [];
+  for (const key in record) {
+    const item = record[key];
+    if (item instanceof Group) output.push(...paramsFields(item._params, [...path, key]));
+    else output.push([[...path, key], getDefaultValue(item) instanceof None && item.applyMany([]) instanceof None]);
+  }
+  return output;
+}
+
+
+// Fill the skeleton with the values from `route` if the skeleton is
+// a proper prefix of the route
+function matchSkeleton(skeleton: Skeleton, target: PathElement[], route: any): object|null {
+  if (skeleton.elements.length >= target.length) return null;
+  let output = skeleton.route;
+  for (let i = 0; i < skeleton.elements.length; i++) {
+    const [a, b] = [skeleton.elements[i], target[i]];
+    if (a.tag === 'Literal' && b.tag === 'Literal' && a.value === b.value) continue;
+    if (a.tag === 'Capture' && b.tag === 'Capture' && isEqual(a.path, b.path)) { output = setIn(output, a.path, b.value); continue; }
+    return null;
+  }
+  for (const [path, isRequired] of skeleton.fields) {
+    const value = path.reduce((acc, k) => acc != null ? acc[k] : undefined, route);
+    if (value !== undefined) output = setIn(output, path, value);
+    else if (isRequired) return null;
+  }
+  return output;
+}
+
+
+// Immutable update of the nested field
+function setIn(object: any, path: string[], value: unknown): any {
+  if (path.length === 0) return value;
+  const [key, ...rest] = path;
+  return { ...object, [key]: setIn(object && object[key] || {}, rest, value) };
 }
 
-function getName<A>(adapter: Adapter<A>): Option<string> {
-  if (adapter instanceof DefaultAdapter) return getName(adapter._adapter);
-  if (adapter instanceof CustomAdapter) return none;
-  if (adapter instanceof NamedAdapter) return some(adapter._name);
-  if (adapter instanceof DimapAdapter) return getName(adapter._adapter);
-  if (adapter instanceof HasAdapter) return getName(adapter.toAdapter());
-  return absurd(adapter);
+
+// Folded values of the `literals` segment right after the static
+// prefix of an alternative of `oneOf` or `null` if there is no such
+// segment. Parsers that don't consume segments are skipped
+function leadingLiterals(parser: Parser<any, any>): string[]|null {
+  const rules = Array.from(makeIterator(parser));
+  let i = 0;
+  while (i < rules.length && rules[i] instanceof Path) i++;
+  while (i < rules.length && isNonConsuming(rules[i])) i++;
+  const rule = rules[i];
+  const literals = rule instanceof Segment ? getLiterals(rule._adapter) : null;
+  return literals && literals.map(foldSegment);
+}
+
+
+// Parsers that don't consume path segments
+function isNonConsuming(rule: Parser<any, any>): boolean {
+  return rule instanceof Params || rule instanceof Matrix || rule instanceof Fragment || rule instanceof Host || rule instanceof AuthorityPart || rule instanceof Extra || rule instanceof Priority;
 }
 
 
 export class Params<O, I=O> extends ParserBase<O, I> {
   constructor(
-    readonly _params: Record<string, Adapter<any>>,
+    readonly _params: ParamsRecord,
   ){ super(); }
 }
 
 
+export class Group<O, I=O, F={}> {
+  readonly _O: O;
+  readonly _I: I;
+  readonly _F: F;
+  
+  constructor(
+    readonly _params: ParamsRecord,
+  ) {}
+}
+
+
 export class Segment<O, I=O> extends ParserBase<O, I> {
   constructor(
     readonly _key: string,
@@ -729,6 +2216,54 @@ export class Segment<O, I=O> extends ParserBase<O, I> {
 }
 
 
+export class Rest<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _key: string,
+    readonly _adapter: Adapter<any>,
+  ) { super(); }
+}
+
+
+export class OptionalSegment<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _key: string,
+    readonly _adapter: Adapter<any, { hasDefault: true }>,
+  ) { super(); }
+}
+
+
+export class Fragment<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _key: string,
+    readonly _adapter: Adapter<any>,
+  ) { super(); }
+}
+
+
+export class Matrix<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _params: ParamsRecord,
+  ) { super(); }
+}
+
+
+export class Host<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _labels: string[],
+    readonly _captures: Record<string, Adapter<any>>,
+  ) { super(); }
+}
+
+
+export class AuthorityPart<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _part: 'scheme'|'port',
+    readonly _key: string,
+    readonly _adapter: Adapter<any>,
+  ) { super(); }
+}
+
+
 export class Path<O, I=O> extends ParserBase<O, I> {
   constructor(
     readonly _segments: string[]
@@ -744,6 +2279,14 @@ export class Embed<O, I=O> extends ParserBase<O, I> {
 }
 
 
+export class Mount<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _base: () => string,
+    readonly _parser: Parser<O, I>,
+  ) { super(); }
+}
+
+
 export class Merge<O, I=O> extends ParserBase<O, I> {
   constructor(
     readonly _first: Parser<any>,
@@ -756,6 +2299,7 @@ export class OneOf<O, I=O> extends ParserBase<O, I> {
   constructor(
     readonly _tags: Record<string, Parser<any>>,
     readonly _prefixTrie?: PrefixTrie,
+    readonly _duplicates: string[] = [],
   ){ super(); }
 }
 
@@ -767,6 +2311,40 @@ export class Extra<O, I=O> extends ParserBase<O, I> {
 }
 
 
+export class Priority<O, I=O> extends ParserBase<O, I> {
+  constructor(
+    readonly _priority: number,
+  ) { super(); }
+}
+
+
+/** Result of `compile` */
+export class Compiled<O, I=O> {
+  readonly _O: O;
+  readonly _I: I;
+
+  constructor(
+    readonly _parser: Parser<O, I>,
+    readonly _program: Program,
+  ) {}
+
+  /** @see `Parser.prototype.parse` */
+  parse(url: string, options: ParseOptions = 0x0): O|null {
+    return parseFirst(this._parser, url, options, this._program);
+  }
+
+  /** @see `Parser.prototype.parseAll` */
+  parseAll(url: string, options: ParseOptions = 0x0): O[] {
+    return parseIntermediate(this._parser, url, options, this._program);
+  }
+
+  /** @see `Parser.prototype.print` */
+  print(route: I): string {
+    return assembleChunks(doPrint(this._parser, route));
+  }
+}
+
+
 export class Custom<O, I=O> extends ParserBase<O, I> {
   constructor(
     readonly _parse: (s: ParserState) => Array<[O, ParserState]>,
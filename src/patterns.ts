@@ -0,0 +1,201 @@
+import { Parser, ParamsRecord, Params, Group, Segment, Rest, OptionalSegment, Fragment, Matrix, Host, AuthorityPart, Embed, Mount, OneOf, Path, Extra, Priority, Custom, PrimitiveParser } from './parser';
+import { Adapter, CustomAdapter, DefaultAdapter, NamedAdapter, DimapAdapter, HasAdapter, RepeatedAdapter, ArrayAdapter, LiteralsAdapter } from './adapter';
+import { Some } from './option';
+import { expandParser, captureKey, getDefaultValue, getName, getLiterals, prefixKey, splitPath, escapeRegExp } from './internal/helpers';
+import { absurd } from './internal/types';
+
+
+/**
+ * Syntax of the exported patterns. `path-to-regexp` is understood by
+ * Express and other Node routers, `urlpattern` by the WHATWG
+ * `URLPattern` constructor
+ */
+export type PatternDialect = 'path-to-regexp'|'urlpattern';
+
+
+/** Result of `toPatterns`, one entry per route */
+export interface RoutePattern {
+  tags: string[]; // Tags of `oneOf` alternatives from the outermost to the innermost
+  pattern: string; // Pattern for the path, e.g. `/category/:slug`
+  query: QuerySpec[];
+  // Argument for `new URLPattern(init)`, only for the `urlpattern`
+  // dialect. Includes the parts of the url outside of the path
+  init?: URLPatternInit;
+}
+
+
+/** Query parameter expected by a route */
+export interface QuerySpec {
+  name: string; // Full name, nested `group`s are written as `filter[price]`
+  required: boolean;
+  repeated: boolean;
+}
+
+
+/** Subset of the WHATWG `URLPatternInit` dictionary */
+export interface URLPatternInit {
+  protocol?: string;
+  hostname?: string;
+  port?: string;
+  pathname: string;
+  hash?: string;
+}
+
+
+/**
+ * Export the route table in the syntax of other routers. Segments
+ * become named parameters, `literals` are written as alternations,
+ * `optionalSegment` and `rest` become optional and repeated
+ * parameters. Throws for `custom` and `matrix` parsers since they
+ * cannot be represented. In the `path-to-regexp` dialect `host`,
+ * `scheme`, `port` and `fragment` are omitted, servers match only
+ * the path
+ *
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Home'),
+ *   r.tag('Category').path('/category').segment('slug', r.nestring).params({ page: r.nat.withDefault(1) }),
+ *   r.tag('Blog').path('/blog').segment('lang', r.literals('en', 'fr')).rest('path', r.string),
+ * );
+ * console.log(toPatterns(parser).map(x => x.pattern)); // => ["/", "/category/:slug", "/blog/:lang(en|fr)/:path*"]
+ * console.log(toPatterns(parser)[1].query); // => [{ name: "page", required: false, repeated: false }]
+ * ```
+ */
+export function toPatterns<O, I>(parser: Parser<O, I>, dialect: PatternDialect = 'path-to-regexp'): RoutePattern[] {
+  return expand(parser).map(draft => {
+    const pattern = '/' + draft.segments.join('/');
+    const output: RoutePattern = { tags: draft.tags, pattern, query: draft.query };
+    if (dialect === 'urlpattern') {
+      const init: URLPatternInit = { pathname: pattern };
+      if (draft.protocol !== undefined) init.protocol = draft.protocol;
+      if (draft.hostname !== undefined) init.hostname = draft.hostname;
+      if (draft.port !== undefined) init.port = draft.port;
+      if (draft.hash !== undefined) init.hash = draft.hash;
+      output.init = init;
+    }
+    return output;
+  });
+}
+
+
+// -- Helpers --
+
+// Pattern of a route under construction
+interface Draft {
+  tags: string[];
+  segments: string[];
+  query: QuerySpec[];
+  protocol?: string;
+  hostname?: string;
+  port?: string;
+  hash?: string;
+}
+
+
+// All routes of the parser, alternatives of `oneOf` multiply the
+// number of drafts
+function expand(parser: Parser<any, any>): Draft[] {
+  return expandParser(parser, { tags: [], segments: [], query: [] }, choices, concatDrafts);
+}
+
+
+// Possible contributions of a single parser to the pattern
+function choices(parser: PrimitiveParser<unknown>): Draft[] {
+  const draft: Draft = { tags: [], segments: [], query: [] };
+
+  if (parser instanceof Params) {
+    return [{ ...draft, query: querySpecs(parser._params, '') }];
+  }
+
+  if (parser instanceof Path) {
+    return [{ ...draft, segments: parser._segments.map(escapePattern) }];
+  }
+
+  if (parser instanceof Segment || parser instanceof OptionalSegment || parser instanceof Rest) {
+    const literals = getLiterals(parser._adapter);
+    const regexp = literals ? `(${literals.map(escapeRegExp).join('|')})` : '';
+    const modifier = parser instanceof OptionalSegment ? '?' : parser instanceof Rest ? '*' : '';
+    return [{ ...draft, segments: [`:${parser._key}${regexp}${modifier}`] }];
+  }
+
+  if (parser instanceof Fragment) {
+    return [{ ...draft, hash: `:${parser._key}` }];
+  }
+
+  if (parser instanceof Host) {
+    return [{ ...draft, hostname: parser._labels.map(x => { const key = captureKey(x); return key === null ? x : `:${key}`; }).join('.') }];
+  }
+
+  if (parser instanceof AuthorityPart) {
+    return [parser._part === 'scheme' ? { ...draft, protocol: `:${parser._key}` } : { ...draft, port: `:${parser._key}` }];
+  }
+
+  if (parser instanceof Embed) {
+    return expand(parser._parser);
+  }
+
+  if (parser instanceof Mount) {
+    const base = splitPath(parser._base()).map(escapePattern);
+    return expand(parser._parser).map(x => ({ ...x, segments: [...base, ...x.segments] }));
+  }
+
+  if (parser instanceof OneOf) {
+    return Object.keys(parser._tags).reduce<Draft[]>((acc, tag) => acc.concat(expand(parser._tags[tag]).map(x => ({ ...x, tags: [tag, ...x.tags] }))), []);
+  }
+
+  if (parser instanceof Extra || parser instanceof Priority) {
+    return [draft];
+  }
+
+  if (parser instanceof Matrix) {
+    throw new Error(`toPatterns: cannot export 'Matrix' parsers`);
+  }
+
+  if (parser instanceof Custom) {
+    throw new Error(`toPatterns: cannot export 'Custom' parsers`);
+  }
+
+  return absurd(parser);
+}
+
+
+function concatDrafts(a: Draft, b: Draft): Draft {
+  return {
+    ...a, ...b,
+    tags: [...a.tags, ...b.tags],
+    segments: [...a.segments, ...b.segments],
+    query: [...a.query, ...b.query],
+  };
+}
+
+
+function querySpecs(record: ParamsRecord, prefix: string): QuerySpec[] {
+  const output: QuerySpec[] = [];
+  for (const key of Object.keys(record)) {
+    const item = record[key];
+    if (item instanceof Group) {
+      output.push(...querySpecs(item._params, prefixKey(prefix, key)));
+      continue;
+    }
+    const name = getName(item);
+    const required = !(getDefaultValue(item) instanceof Some) && item.applyMany([]).isNone();
+    output.push({ name: prefixKey(prefix, name instanceof Some ? name.value : key), required, repeated: isRepeated(item) });
+  }
+  return output;
+}
+
+
+function isRepeated(adapter: Adapter<any, any>): boolean {
+  if (adapter instanceof RepeatedAdapter) return true;
+  if (adapter instanceof NamedAdapter || adapter instanceof DefaultAdapter || adapter instanceof DimapAdapter) return isRepeated(adapter._adapter);
+  if (adapter instanceof HasAdapter) return isRepeated(adapter.toAdapter());
+  if (adapter instanceof CustomAdapter || adapter instanceof ArrayAdapter || adapter instanceof LiteralsAdapter) return false;
+  return absurd(adapter);
+}
+
+
+// Characters with special meaning in both dialects
+function escapePattern(str: string): string {
+  return str.replace(/[:*?+()[\]{}\\]/g, '\\$&');
+}
+
@@ -0,0 +1,319 @@
+import { Parser, ParseOptions } from './parser';
+
+
+/**
+ * Source of the current url for `createRouter`. Urls start with a
+ * slash like `location.pathname` unless they have an authority, in
+ * the hash mode they are already stripped of the `#`
+ */
+export interface History {
+  location(): string;
+  push(url: string): void;
+  replace(url: string): void;
+  // Position of the current entry, used to undo the back and forward
+  // buttons with `go`
+  index(): number;
+  go(delta: number): void;
+  // Subscribe to changes not initiated by `push` and `replace`, like
+  // the back button. Returns the function to unsubscribe
+  listen(listener: () => void): () => void;
+}
+
+
+/** `History` stored in memory, for tests and server side rendering */
+export interface MemoryHistory extends History {
+  entries(): string[];
+  back(): void;
+  forward(): void;
+}
+
+
+/** Options for `createRouter` */
+export interface RouterOptions<O> {
+  // Keep the url in `location.hash` or in `location.pathname`,
+  // `'hash'` by default
+  mode?: 'hash'|'path';
+  // Route for the urls rejected by the parser
+  fallback: O|((url: string) => O);
+  // Defaults to the browser history
+  history?: History;
+  parseOptions?: ParseOptions;
+  // Handle clicks on the links parsed by the parser without reloading
+  // the page, `true` by default in the browser
+  interceptLinks?: boolean;
+  // Called with the errors of the transitions caused by the back and
+  // forward buttons and by clicks on links, these have no promise to
+  // reject. Errors are printed with `console.error` by default
+  onError?: (err: unknown) => void;
+}
+
+
+/**
+ * Hook called before a transition from `from` to `to`. Return `false`
+ * to cancel the transition, `{ redirect }` to go to another route
+ * instead, anything else allows the transition
+ */
+export type Guard<O, I> = (to: O, from: O) => GuardResult<I>|Promise<GuardResult<I>>;
+export type GuardResult<I> = boolean|void|{ redirect: I };
+
+
+/** Result of `createRouter` */
+export interface Router<O, I> {
+  current(): O;
+  // Resolves with `true` if the transition is committed, `false` if
+  // it is cancelled by a guard or superseded by another transition
+  navigate(route: I): Promise<boolean>;
+  replace(route: I): Promise<boolean>;
+  // Listener is called after each change of the current route,
+  // returns the function to unsubscribe
+  subscribe(listener: (route: O) => void): () => void;
+  // Guards are called in order: all `beforeLeave` guards, then all
+  // `beforeEnter` guards, each group in the order of registration.
+  // The next guard waits for the promise returned by the previous
+  // one, the first guard that cancels or redirects stops the chain.
+  // Returns the function to unregister the guard
+  beforeLeave(guard: Guard<O, I>): () => void;
+  beforeEnter(guard: Guard<O, I>): () => void;
+  // Value for the `href` attribute of links
+  href(route: I): string;
+  // Remove all listeners installed by the router
+  destroy(): void;
+}
+
+
+/**
+ * Keep the current route in sync with the url. Clicks on `<a>`
+ * elements with urls known to the parser are handled with
+ * `navigate` unless a modifier key is pressed or the link has
+ * `target` or `download` attributes. Transitions are committed
+ * synchronously unless a guard returns a promise. When a guard
+ * cancels the transition caused by the back or forward buttons the
+ * history goes back to the entry of the previous url with
+ * `History.prototype.go`, the entries stay intact
+ *
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Shop').path('/shop'),
+ *   r.tag('Item').path('/item').segment('id', r.nat),
+ *   r.tag('NotFound').path('/404'),
+ * );
+ * const router = createRouter(parser, { fallback: { tag: 'NotFound' }, history: createMemoryHistory('/shop') });
+ * router.subscribe(route => console.log(route));
+ * router.navigate({ tag: 'Item', id: 42 }); // => { tag: "Item", id: 42 }
+ * console.log(router.current()); // => { tag: "Item", id: 42 }
+ * router.beforeLeave((to, from) => from.tag !== 'Item' || confirm('Discard changes?'));
+ * router.beforeEnter(to => to.tag !== 'Shop' || { redirect: { tag: 'NotFound' } });
+ * ```
+ */
+export function createRouter<O, I>(parser: Parser<O, I>, options: RouterOptions<O>): Router<O, I> {
+  const mode = options.mode || 'hash';
+  const history = options.history || createBrowserHistory(mode);
+  const listeners: Array<(route: O) => void> = [];
+  const leaveGuards: Array<Guard<O, I>> = [];
+  const enterGuards: Array<Guard<O, I>> = [];
+  const disposers: Array<() => void> = [];
+  const onError = options.onError || (err => console.error(err));
+  let transitionId = 0;
+  let url = normalizeUrl(history.location());
+  let position = history.index();
+  let route = parseUrl(url);
+
+  disposers.push(history.listen(() => void go(normalizeUrl(history.location()), 'pop').catch(onError)));
+  if (options.interceptLinks !== false && typeof(document) !== 'undefined') {
+    document.addEventListener('click', handleClick);
+    disposers.push(() => document.removeEventListener('click', handleClick));
+  }
+
+  return {
+    current: () => route,
+    navigate: route => go(normalizeUrl(parser.print(route)), 'push'),
+    replace: route => go(normalizeUrl(parser.print(route)), 'replace'),
+    subscribe: listener => addItem(listeners, listener),
+    beforeLeave: guard => addItem(leaveGuards, guard),
+    beforeEnter: guard => addItem(enterGuards, guard),
+    href: route => (mode === 'hash' ? '#' : '') + normalizeUrl(parser.print(route)),
+    destroy: () => disposers.splice(0).forEach(f => f()),
+  };
+
+  function parseUrl(url: string): O {
+    const route = parser.parse(url, options.parseOptions);
+    if (route !== null) return route;
+    return typeof(options.fallback) === 'function' ? (options.fallback as (url: string) => O)(url) : options.fallback;
+  }
+
+  // `pop` means that the history has already changed the url. The
+  // `pop` caused by restoring the previous entry is ignored since the
+  // url is the same, navigation to the current url only cancels the
+  // pending transition
+  function go(next: string, method: 'push'|'replace'|'pop', redirects = 0): Promise<boolean> {
+    if (next === url && method === 'pop') return Promise.resolve(true);
+    const id = ++transitionId;
+    if (next === url) {
+      restorePosition();
+      return Promise.resolve(true);
+    }
+    const [from, to] = [route, parseUrl(next)];
+    const restore = () => { if (method === 'pop' && id === transitionId) restorePosition(); };
+    return new Promise((resolve, reject) => {
+      const commit = (result: GuardResult<I>) => {
+        if (id !== transitionId) return resolve(false);
+        if (result === false) {
+          restore();
+          return resolve(false);
+        }
+        if (isRedirect(result)) {
+          // The redirect from a `pop` is pushed after the popped entry
+          if (redirects >= maxRedirects) return reject(new Error(`createRouter: too many redirects`));
+          return resolve(go(normalizeUrl(parser.print(result.redirect)), method === 'pop' ? 'push' : method, redirects + 1));
+        }
+        if (method === 'push') history.push(next);
+        if (method === 'replace') history.replace(next);
+        url = next;
+        position = history.index();
+        route = to;
+        listeners.slice().forEach(f => f(route));
+        resolve(true);
+      };
+      runGuards([...leaveGuards, ...enterGuards], to, from, commit, err => { restore(); reject(err); });
+    });
+  }
+
+  // Go back to the entry of the current url if a pending `pop` has
+  // moved away from it
+  function restorePosition() {
+    if (history.index() !== position) history.go(position - history.index());
+  }
+
+  function handleClick(e: MouseEvent) {
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    let link = e.target as Node|null;
+    while (link && link.nodeName !== 'A') link = link.parentNode;
+    if (!link) return;
+    const anchor = link as HTMLAnchorElement;
+    if ((anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download') || anchor.origin !== location.origin) return;
+    const next = mode === 'hash'
+      ? (anchor.pathname === location.pathname && anchor.search === location.search ? anchor.hash.replace(/^#/, '') : null)
+      : anchor.pathname + anchor.search + anchor.hash;
+    if (next === null || parser.parse(next, options.parseOptions) === null) return;
+    e.preventDefault();
+    go(normalizeUrl(next), 'push').catch(onError);
+  }
+}
+
+
+/** `History` backed by `window.history` */
+export function createBrowserHistory(mode: 'hash'|'path' = 'hash'): History {
+  // Positions of the entries are kept in `history.state`
+  const initial = readIndex();
+  let index = initial === null ? 0 : initial;
+  if (initial === null) window.history.replaceState({ idx: index }, '');
+
+  return {
+    location: () => mode === 'hash' ? location.hash.replace(/^#/, '') : location.pathname + location.search + location.hash,
+    push: url => window.history.pushState({ idx: ++index }, '', toHref(url)),
+    replace: url => window.history.replaceState({ idx: index }, '', toHref(url)),
+    index: () => index,
+    go: delta => window.history.go(delta),
+    listen(listener) {
+      // Back button in the hash mode also fires `popstate`
+      const event = mode === 'hash' ? 'hashchange' : 'popstate';
+      const handler = () => {
+        // Entries created by editing the hash have no position yet
+        const idx = readIndex();
+        if (idx === null) window.history.replaceState({ idx: ++index }, '');
+        else index = idx;
+        listener();
+      };
+      window.addEventListener(event, handler);
+      return () => window.removeEventListener(event, handler);
+    },
+  };
+
+  function readIndex(): number|null {
+    const state = window.history.state;
+    return state && typeof(state.idx) === 'number' ? state.idx : null;
+  }
+
+  function toHref(url: string): string {
+    return (mode === 'hash' ? '#' : '') + normalizeUrl(url);
+  }
+}
+
+
+/**
+ * In-memory `History`, listeners are notified on `go`, `back` and
+ * `forward`
+ *
+ * ```ts
+ * const history = createMemoryHistory('/shop');
+ * history.push('/item/1');
+ * history.back();
+ * console.log(history.location()); // => "/shop"
+ * console.log(history.entries()); // => ["/shop", "/item/1"]
+ * ```
+ */
+export function createMemoryHistory(initialUrl = '/'): MemoryHistory {
+  const entries = [normalizeUrl(initialUrl)];
+  const listeners: Array<() => void> = [];
+  let index = 0;
+
+  const go = (delta: number) => {
+    const next = Math.min(Math.max(index + delta, 0), entries.length - 1);
+    if (next === index) return;
+    index = next;
+    listeners.slice().forEach(f => f());
+  };
+
+  return {
+    location: () => entries[index],
+    push: url => { entries.splice(index + 1, entries.length, normalizeUrl(url)); index = entries.length - 1; },
+    replace: url => { entries[index] = normalizeUrl(url); },
+    listen: listener => addItem(listeners, listener),
+    entries: () => entries.slice(),
+    index: () => index,
+    go,
+    back: () => go(-1),
+    forward: () => go(1),
+  };
+}
+
+
+// -- Helpers --
+
+// Limit for chains of redirects from guards
+const maxRedirects = 10;
+
+
+// Call guards one by one until the first one that does not allow the
+// transition, stays synchronous while guards return plain values
+function runGuards<O, I>(guards: Array<Guard<O, I>>, to: O, from: O, done: (result: GuardResult<I>) => void, fail: (err: any) => void, idx = 0): void {
+  if (idx >= guards.length) return done(true);
+  let result: GuardResult<I>|Promise<GuardResult<I>>;
+  try {
+    result = guards[idx](to, from);
+  } catch (err) {
+    return fail(err);
+  }
+  const next = (x: GuardResult<I>) => x === false || isRedirect(x) ? done(x) : runGuards(guards, to, from, done, fail, idx + 1);
+  if (result && typeof((result as Promise<GuardResult<I>>).then) === 'function') (result as Promise<GuardResult<I>>).then(next, fail);
+  else next(result as GuardResult<I>);
+}
+
+
+function isRedirect<I>(result: GuardResult<I>): result is { redirect: I } {
+  return typeof(result) === 'object' && result !== null && 'redirect' in result;
+}
+
+
+// Push an item and return the function removing it
+function addItem<A>(array: A[], item: A): () => void {
+  array.push(item);
+  return () => { const idx = array.indexOf(item); if (idx !== -1) array.splice(idx, 1); };
+}
+
+
+// Printed urls have no leading slash, unlike `location.pathname`.
+// Urls with an authority are left as is
+function normalizeUrl(url: string): string {
+  return /^([a-zA-Z][a-zA-Z0-9+.-]*:)?\/\//.test(url) ? url : '/' + url.replace(/^\/+/, '');
+}
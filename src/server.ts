@@ -0,0 +1,117 @@
+import { Parser, ParseOptions } from './parser';
+
+
+/**
+ * Parts of `http.IncomingMessage` used by `createHandler`, declared
+ * here so that the typings don't depend on `@types/node`
+ */
+export interface ServerRequest {
+  url?: string;
+}
+
+
+/** Parts of `http.ServerResponse` used by `createHandler` */
+export interface ServerResponse {
+  statusCode: number;
+  readonly headersSent: boolean;
+  setHeader(name: string, value: string): void;
+  end(data?: string): void;
+}
+
+
+/**
+ * Handler for each tag of the parser, receives the route narrowed
+ * to the corresponding alternative of `oneOf`. `Req` and `Res` are
+ * `http.IncomingMessage` and `http.ServerResponse` or the request
+ * and response of the framework
+ */
+export type Handlers<O extends { tag: string }, Req = ServerRequest, Res = ServerResponse> = {
+  [K in O['tag']]: (route: Extract<O, { tag: K }>, req: Req, res: Res) => void|Promise<void>;
+};
+
+
+/** Options for `createHandler` */
+export interface HandlerOptions<Req = ServerRequest, Res = ServerResponse> {
+  parseOptions?: ParseOptions;
+  // Called for unknown urls when there is no `next` to pass the
+  // request to, the default responds with `404 Not Found`
+  notFound?: (req: Req, res: Res) => void;
+}
+
+
+/**
+ * Request listener for `http.createServer` and middleware for
+ * Connect and Express
+ */
+export type RequestHandler<Req = ServerRequest, Res = ServerResponse> = (req: Req, res: Res, next?: (err?: any) => void) => void;
+
+
+/**
+ * Dispatch requests to the handler for the tag of the parsed
+ * `req.url`. Unknown urls are passed to `next` when used as a
+ * middleware, otherwise to `options.notFound`. Urls that cannot be
+ * decoded, like `/shop?x=%`, are passed to `next` as errors or end
+ * the response with `400 Bad Request`. Exceptions and
+ * rejected promises from handlers are passed to `next` or end the
+ * response with `500 Internal Server Error`. When mounted at a sub
+ * path, Express strips the prefix from `req.url` so the parser should
+ * describe urls relative to the mount point
+ *
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1) }),
+ *   r.tag('Item').path('/shop/item').segment('id', r.nat),
+ * );
+ * const handler = createHandler(parser, {
+ *   Shop: (route, req, res) => res.end(`page ${route.page}`),
+ *   Item: (route, req, res) => res.end(`item ${route.id}`),
+ * });
+ * http.createServer(handler).listen(8080);
+ * // Or app.use('/api', handler) with Express
+ * ```
+ */
+export function createHandler<O extends { tag: string }, I, Req extends ServerRequest = ServerRequest, Res extends ServerResponse = ServerResponse>(parser: Parser<O, I>, handlers: Handlers<O, Req, Res>, options: HandlerOptions<Req, Res> = {}): RequestHandler<Req, Res> {
+  const notFound = options.notFound || respondNotFound;
+  return (req, res, next) => {
+    let route: O|null;
+    try {
+      route = parser.parse(req.url || '/', options.parseOptions);
+    } catch (err) {
+      if (next) next(err);
+      else respondBadRequest(req, res);
+      return;
+    }
+    if (route === null || !handlers.hasOwnProperty(route.tag)) {
+      if (next) next();
+      else notFound(req, res);
+      return;
+    }
+    const onError = (err: any) => {
+      if (next) return next(err);
+      if (!res.headersSent) res.statusCode = 500;
+      res.end();
+    };
+    try {
+      const result = handlers[route.tag as O['tag']](route as any, req, res);
+      if (result && typeof(result.then) === 'function') result.then(undefined, onError);
+    } catch (err) {
+      onError(err);
+    }
+  };
+}
+
+
+// -- Helpers --
+
+function respondNotFound(req: ServerRequest, res: ServerResponse): void {
+  res.statusCode = 404;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end('Not Found');
+}
+
+
+function respondBadRequest(req: ServerRequest, res: ServerResponse): void {
+  res.statusCode = 400;
+  res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+  res.end('Bad Request');
+}
@@ -0,0 +1,200 @@
+import { Parser, PrimitiveParser, ParamsRecord, Params, Group, Segment, Rest, OptionalSegment, Fragment, Matrix, Host, AuthorityPart, Embed, Mount, OneOf, Path, Extra, Priority, Custom } from './parser';
+import { Adapter, CustomAdapter, DefaultAdapter, NamedAdapter, DimapAdapter, HasAdapter, RepeatedAdapter, ArrayAdapter, LiteralsAdapter } from './adapter';
+import { Some } from './option';
+import isEqual from './internal/isequal';
+import { expandParser, captureKeys, getCapture } from './internal/helpers';
+import { absurd } from './internal/types';
+
+
+/**
+ * Values for the fields with open adapters like `nat` or `string`,
+ * keyed by the name of the field. Functions receive the part of the
+ * route constructed so far, i.e. the fields declared to the left
+ */
+export type ValueProviders = Record<string, any[]|((route: any) => any[])>;
+
+
+/** Options for `sitemap` */
+export interface SitemapOptions {
+  baseUrl: string;
+  providers?: ValueProviders;
+}
+
+
+/**
+ * Print all urls described by the parser. Values of `literals`,
+ * `of` and adapters with defaults are found automatically, other
+ * fields must be listed in `providers`, otherwise an exception is
+ * thrown. Pass an empty list to exclude the route
+ *
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Home'),
+ *   r.tag('Blog').path('/blog').segment('category', r.literals('art', 'science')),
+ *   r.tag('Product').path('/product').segment('id', r.nat),
+ *   r.tag('Search').path('/search').params({ q: r.string.withDefault('') }),
+ * );
+ * console.log(enumerate(parser, { id: [1, 2] }));
+ * // => ["", "blog/art", "blog/science", "product/1", "product/2", "search"]
+ * ```
+ */
+export function enumerate<O, I>(parser: Parser<O, I>, providers: ValueProviders = {}): string[] {
+  const urls = enumerateRoutes(parser, providers).map(route => parser.print(route));
+  return urls.filter((url, idx) => urls.indexOf(url) === idx);
+}
+
+
+/**
+ * Same as `enumerate` but returns routes instead of printed urls
+ *
+ * ```ts
+ * const parser = r.path('/blog').segment('category', r.literals('art', 'science'));
+ * console.log(enumerateRoutes(parser)); // => [{ category: "art" }, { category: "science" }]
+ * ```
+ */
+export function enumerateRoutes<O, I>(parser: Parser<O, I>, providers: ValueProviders = {}): I[] {
+  return expand(parser, providers, {}) as any as I[];
+}
+
+
+/**
+ * Serialize all urls of the parser as `sitemap.xml`. Optional tags
+ * `lastmod`, `changefreq` and `priority` are taken from the fields
+ * of the same name, usually provided with `extra`
+ *
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Home').extra({ changefreq: 'daily', priority: 1 }),
+ *   r.tag('Product').path('/product').segment('id', r.nat).extra({ changefreq: 'weekly' }),
+ * );
+ * console.log(sitemap(parser, { baseUrl: 'https://example.com', providers: { id: [1] } }));
+ * // => <?xml version="1.0" encoding="UTF-8"?>
+ * // <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+ * //   <url><loc>https://example.com/</loc><changefreq>daily</changefreq><priority>1</priority></url>
+ * //   <url><loc>https://example.com/product/1</loc><changefreq>weekly</changefreq></url>
+ * // </urlset>
+ * ```
+ */
+export function sitemap<O, I>(parser: Parser<O, I>, options: SitemapOptions): string {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  // Protocol-relative urls printed by `host` get the scheme of `baseUrl`
+  const scheme = (/^[a-z][a-z0-9+.-]*:/i.exec(baseUrl) || [''])[0];
+  const seen: Record<string, true> = {};
+  const entries: string[] = [];
+  for (const route of enumerateRoutes(parser, options.providers)) {
+    const url = parser.print(route);
+    if (seen[url]) continue;
+    seen[url] = true;
+    const output = parser.toOutput(route);
+    const loc = /^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : /^\/\//.test(url) ? scheme + url : `${baseUrl}/${url}`;
+    let entry = `<loc>${escapeXml(loc)}</loc>`;
+    if (output['lastmod'] != null) entry += `<lastmod>${escapeXml(output['lastmod'] instanceof Date ? output['lastmod'].toISOString() : String(output['lastmod']))}</lastmod>`;
+    if (output['changefreq'] != null) entry += `<changefreq>${escapeXml(String(output['changefreq']))}</changefreq>`;
+    if (output['priority'] != null) entry += `<priority>${escapeXml(String(output['priority']))}</priority>`;
+    entries.push(`  <url>${entry}</url>\n`);
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${entries.join('')}</urlset>\n`;
+}
+
+
+// -- Helpers --
+
+// All routes of the parser extending `prefix`
+function expand(parser: Parser<any, any>, providers: ValueProviders, prefix: object): object[] {
+  return expandParser(parser, prefix, (rule, route) => choices(rule, providers, route), (route, part) => ({ ...route, ...part }));
+}
+
+
+// Possible contributions of a single parser to the route
+function choices(parser: PrimitiveParser<unknown>, providers: ValueProviders, route: object): object[] {
+  if (parser instanceof Params || parser instanceof Matrix) {
+    return recordChoices(parser._params, providers, route);
+  }
+
+  if (parser instanceof Segment || parser instanceof Rest || parser instanceof OptionalSegment || parser instanceof Fragment || parser instanceof AuthorityPart) {
+    return fieldChoices(parser._key, parser._adapter, providers, route);
+  }
+
+  if (parser instanceof Host) {
+    return captureKeys(parser).reduce<object[]>((acc, key) => product(acc, r => fieldChoices(key, getCapture(parser, key), providers, { ...route, ...r })), [{}]);
+  }
+
+  if (parser instanceof Embed) {
+    return expand(parser._parser, providers, {}).map(x => ({ [parser._key]: x }));
+  }
+
+  if (parser instanceof Mount) {
+    return expand(parser._parser, providers, {});
+  }
+
+  if (parser instanceof OneOf) {
+    return Object.keys(parser._tags).reduce<object[]>((acc, tag) => acc.concat(expand(parser._tags[tag], providers, {})), []);
+  }
+
+  if (parser instanceof Path || parser instanceof Priority) {
+    return [{}];
+  }
+
+  if (parser instanceof Extra) {
+    return [parser._payload];
+  }
+
+  if (parser instanceof Custom) {
+    throw new Error(`enumerate: cannot enumerate 'Custom' parsers`);
+  }
+
+  return absurd(parser);
+}
+
+
+function recordChoices(record: ParamsRecord, providers: ValueProviders, route: object): object[] {
+  let routes: object[] = [{}];
+  for (const key of Object.keys(record)) {
+    const item = record[key];
+    if (item instanceof Group) routes = product(routes, () => recordChoices(item._params, providers, {}).map(x => ({ [key]: x })));
+    else routes = product(routes, r => fieldChoices(key, item, providers, { ...route, ...r }));
+  }
+  return routes;
+}
+
+
+function fieldChoices(key: string, adapter: Adapter<any, any>, providers: ValueProviders, route: object): object[] {
+  const provider = providers[key];
+  const values = provider === undefined ? adapterValues(adapter) : typeof(provider) === 'function' ? provider(route) : provider;
+  if (values === null) throw new Error(`enumerate: no values for the field '${key}', add it to 'providers'`);
+  return values.map(x => ({ [key]: x }));
+}
+
+
+// Finite set of values of the adapter or `null`
+function adapterValues(adapter: Adapter<any, any>): any[]|null {
+  if (adapter instanceof CustomAdapter) {
+    // Adapters from `of` ignore their input
+    const [first, second] = [adapter.apply(''), adapter.apply('?')];
+    return first instanceof Some && second instanceof Some && isEqual(first.value, second.value) ? [first.value] : null;
+  }
+  if (adapter instanceof DefaultAdapter) {
+    const values = adapterValues(adapter._adapter) || [];
+    return values.some(x => isEqual(x, adapter._default)) ? values : [...values, adapter._default];
+  }
+  if (adapter instanceof NamedAdapter) return adapterValues(adapter._adapter);
+  if (adapter instanceof DimapAdapter) { const values = adapterValues(adapter._adapter); return values && values.map(adapter._map); }
+  if (adapter instanceof HasAdapter) return adapterValues(adapter.toAdapter());
+  if (adapter instanceof RepeatedAdapter) return [[]];
+  if (adapter instanceof ArrayAdapter) return null;
+  if (adapter instanceof LiteralsAdapter) return adapter._literals;
+  return absurd(adapter);
+}
+
+
+// Extend each of `routes` with each of the results of `f`
+function product(routes: object[], f: (route: object) => object[]): object[] {
+  const output: object[] = [];
+  for (const route of routes) for (const part of f(route)) output.push({ ...route, ...part });
+  return output;
+}
+
+
+function escapeXml(str: string): string {
+  return str.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&apos;' })[c]);
+}
@@ -0,0 +1,346 @@
+import { Parser, ParseOptions, ParamsRecord, Params, Group, Segment, Rest, OptionalSegment, Fragment, Matrix, Host, AuthorityPart, Embed, Mount, OneOf, Path, Extra, Priority, Custom, Merge } from './parser';
+import { Adapter, CustomAdapter, DefaultAdapter, NamedAdapter, DimapAdapter, HasAdapter, RepeatedAdapter, ArrayAdapter, LiteralsAdapter, nat, int, date, nestring, string as stringAdapter } from './adapter';
+import { Some } from './option';
+import isEqual from './internal/isequal';
+import { captureKeys, getCapture } from './internal/helpers';
+import { absurd } from './internal/types';
+
+
+/**
+ * Source of randomness, returns numbers from `[0, 1)` like
+ * `Math.random`
+ */
+export type Random = () => number;
+
+
+/**
+ * Generator of random values of type `A`. `shrink` returns smaller
+ * versions of the value, the simplest ones come first
+ */
+export interface Gen<A> {
+  generate(random: Random): A;
+  shrink(value: A): A[];
+}
+
+
+/** Options for `checkRoundTrip` */
+export interface CheckOptions {
+  runs?: number; // Number of generated routes, default is 100
+  seed?: number; // Seed for the random generator
+  parseOptions?: ParseOptions;
+  generators?: Array<[Adapter<any, any>, Gen<any>]>; // Generators for custom adapters
+}
+
+
+/**
+ * Route for which `parse` and `print` disagree. `law` tells which
+ * equation doesn't hold: `ParseAfterPrint` is `parse(print(route))`
+ * equals `toOutput(route)`, `PrintAfterParse` is
+ * `print(parse(url))` equals `url`
+ */
+export interface Counterexample<O, I> {
+  law: 'ParseAfterPrint'|'PrintAfterParse';
+  route: I;
+  url: string;
+  parsed: O|null;
+  reprinted: string|null;
+}
+
+
+/**
+ * Check that `parse` and `print` are inverse to each other on random
+ * routes derived from the parser. Returns `null` when no violations
+ * were found, otherwise the counterexample with the simplest route
+ * that still fails. Values of `custom` adapters are found by trying
+ * random strings, pass `generators` if that isn't enough
+ *
+ * ```ts
+ * const parser = r.oneOf(
+ *   r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1) }),
+ *   r.tag('Item').path('/shop').segment('id', r.nestring),
+ *   r.tag('Files').path('/files').rest('path', r.string),
+ * );
+ * console.log(checkRoundTrip(parser));
+ * // => { law: "ParseAfterPrint", route: { tag: "Files", path: "/" }, url: "files", parsed: { tag: "Files", path: "" }, reprinted: null }
+ * ```
+ */
+export function checkRoundTrip<O, I>(parser: Parser<O, I>, options: CheckOptions = {}): Counterexample<O, I>|null {
+  const { runs = 100, seed = 1, parseOptions = 0x0, generators = [] } = options;
+  const gen = genRoute(parser, generators);
+  const random = makeRandom(seed);
+  for (let i = 0; i < runs; i++) {
+    const failure = check(gen.generate(random));
+    if (failure !== null) return minimize(failure);
+  }
+  return null;
+
+  function check(route: I): Counterexample<O, I>|null {
+    const url = parser.print(route);
+    const parsed = parser.parse(url, parseOptions);
+    if (parsed === null || !isEqual(parsed, parser.toOutput(route))) return { law: 'ParseAfterPrint', route, url, parsed, reprinted: null };
+    const reprinted = parser.print(parsed as any as I);
+    if (reprinted !== url) return { law: 'PrintAfterParse', route, url, parsed, reprinted };
+    return null;
+  }
+
+  function minimize(failure: Counterexample<O, I>): Counterexample<O, I> {
+    let current = failure;
+    for (let step = 0; step < 1000; step++) {
+      let next: Counterexample<O, I>|null = null;
+      for (const route of gen.shrink(current.route)) {
+        next = check(route);
+        if (next !== null) break;
+      }
+      if (next === null) return current;
+      current = next;
+    }
+    return current;
+  }
+}
+
+
+/**
+ * Derive generator of routes accepted by `Parser.prototype.print`
+ *
+ * ```ts
+ * const parser = r.path('/blog').segment('category', r.literals('art', 'science')).params({ page: r.nat });
+ * const gen = genRoute(parser);
+ * console.log(gen.generate(Math.random)); // => { category: "science", page: 27 }
+ * ```
+ */
+export function genRoute<O, I>(parser: Parser<O, I>, generators: Array<[Adapter<any, any>, Gen<any>]> = []): Gen<I> {
+  if (parser instanceof Params || parser instanceof Matrix) {
+    return genRecord(parser._params, generators);
+  }
+
+  if (parser instanceof Segment || parser instanceof Rest || parser instanceof OptionalSegment || parser instanceof Fragment || parser instanceof AuthorityPart) {
+    return genField(parser._key, genAdapter(parser._adapter, generators));
+  }
+
+  if (parser instanceof Host) {
+    return captureKeys(parser).map(key => genField(key, genAdapter(getCapture(parser, key), generators))).reduce<Gen<any>>(genMerge, genConstant({}));
+  }
+
+  if (parser instanceof Embed) {
+    return genField(parser._key, genRoute(parser._parser, generators));
+  }
+
+  if (parser instanceof Mount) {
+    return genRoute(parser._parser, generators);
+  }
+
+  if (parser instanceof OneOf) {
+    const tags = Object.keys(parser._tags);
+    const gens = tags.map(tag => genRoute(parser._tags[tag], generators));
+    return {
+      generate: random => gens[Math.floor(random() * gens.length)].generate(random),
+      shrink: value => gens[tags.indexOf(value['tag'])].shrink(value),
+    };
+  }
+
+  if (parser instanceof Path || parser instanceof Priority) {
+    return genConstant({} as I);
+  }
+
+  if (parser instanceof Extra) {
+    return genConstant({ ...parser._payload } as any as I);
+  }
+
+  if (parser instanceof Custom) {
+    throw new Error(`genRoute: cannot generate routes for 'Custom' parsers`);
+  }
+
+  if (parser instanceof Merge) {
+    return genMerge(genRoute(parser._first, generators), genRoute(parser._second, generators));
+  }
+
+  return absurd(parser);
+}
+
+
+/**
+ * Derive generator of values accepted by `Adapter.prototype.unapply`
+ *
+ * ```ts
+ * const gen = genAdapter(r.array(r.nat));
+ * console.log(gen.generate(Math.random)); // => [3, 115]
+ * ```
+ */
+export function genAdapter<T extends Adapter<any, any>>(adapter: T, generators?: Array<[Adapter<any, any>, Gen<any>]>): Gen<T['_A']>;
+export function genAdapter<A>(adapter: Adapter<A, any>, generators: Array<[Adapter<any, any>, Gen<any>]> = []): Gen<A> {
+  for (const [key, gen] of generators) if (key === adapter) return gen;
+
+  if (adapter instanceof CustomAdapter) {
+    if (adapter as Adapter<any> === nat) return genInteger(0) as any;
+    if (adapter as Adapter<any> === int) return genInteger(-Infinity) as any;
+    if (adapter as Adapter<any> === date) return genDate() as any;
+    if (adapter as Adapter<any> === stringAdapter) return genString(0) as any;
+    if (adapter as Adapter<any> === nestring) return genString(1) as any;
+    return genByTrial(adapter);
+  }
+
+  if (adapter instanceof DefaultAdapter) {
+    const gen = genAdapter(adapter._adapter, generators);
+    const defaultValue = adapter._default;
+    return {
+      generate: random => random() < 0.25 ? defaultValue : gen.generate(random),
+      shrink: value => isEqual(value, defaultValue) ? [] : [defaultValue, ...gen.shrink(value)],
+    };
+  }
+
+  if (adapter instanceof NamedAdapter) {
+    return genAdapter(adapter._adapter, generators);
+  }
+
+  if (adapter instanceof DimapAdapter) {
+    const gen = genAdapter(adapter._adapter, generators);
+    return {
+      generate: random => adapter._map(gen.generate(random)),
+      shrink: value => gen.shrink(adapter._comap(value)).map(adapter._map),
+    };
+  }
+
+  if (adapter instanceof HasAdapter) {
+    return genAdapter(adapter.toAdapter(), generators);
+  }
+
+  if (adapter instanceof RepeatedAdapter || adapter instanceof ArrayAdapter) {
+    return genArray(genAdapter(adapter._adapter, generators)) as any;
+  }
+
+  if (adapter instanceof LiteralsAdapter) {
+    const literals = adapter._literals as any as A[];
+    return {
+      generate: random => literals[Math.floor(random() * literals.length)],
+      shrink: value => literals.slice(0, literals.indexOf(value)),
+    };
+  }
+
+  return absurd(adapter);
+}
+
+
+// -- Helpers --
+
+// Characters for random strings, contains symbols that need escaping
+const alphabet = 'abcxyzABC0129 -_.~/?#&=%+,;:é';
+
+
+// Deterministic pseudo-random numbers (mulberry32)
+function makeRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ t >>> 15, t | 1);
+    t ^= t + Math.imul(t ^ t >>> 7, t | 61);
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+
+function genConstant<A>(value: A): Gen<A> {
+  return { generate: () => value, shrink: () => [] };
+}
+
+
+// Generator of an object with one field
+function genField<A>(key: string, gen: Gen<any>): Gen<A> {
+  return {
+    generate: random => ({ [key]: gen.generate(random) }) as any as A,
+    shrink: value => gen.shrink(value[key]).map(x => ({ ...value as any, [key]: x })),
+  };
+}
+
+
+// Fields produced by both generators
+function genMerge<A>(first: Gen<any>, second: Gen<any>): Gen<A> {
+  return {
+    generate: random => ({ ...first.generate(random), ...second.generate(random) }),
+    shrink: value => [...first.shrink(value), ...second.shrink(value)],
+  };
+}
+
+
+function genRecord<A>(record: ParamsRecord, generators: Array<[Adapter<any, any>, Gen<any>]>): Gen<A> {
+  return Object.keys(record).map(key => {
+    const item = record[key];
+    return genField(key, item instanceof Group ? genRecord(item._params, generators) : genAdapter(item, generators));
+  }).reduce<Gen<any>>(genMerge, genConstant({}));
+}
+
+
+function genInteger(min: number): Gen<number> {
+  return {
+    generate: random => {
+      const magnitude = Math.floor(random() * random() * 1000);
+      return min >= 0 || random() < 0.5 ? magnitude : -magnitude;
+    },
+    shrink: value => [0, Math.trunc(value / 2), value - Math.sign(value)].filter((x, i, xs) => x !== value && x >= min && xs.indexOf(x) === i),
+  };
+}
+
+
+function genString(minLength: number): Gen<string> {
+  return {
+    generate: random => {
+      let output = '';
+      const length = minLength + Math.floor(random() * 8);
+      for (let i = 0; i < length; i++) output += alphabet[Math.floor(random() * alphabet.length)];
+      return output;
+    },
+    shrink: value => {
+      const output: string[] = [];
+      if (value.length > minLength) {
+        output.push(value.slice(0, minLength), value.slice(0, Math.max(minLength, value.length >> 1)));
+        for (let i = 0; i < value.length; i++) output.push(value.slice(0, i) + value.slice(i + 1));
+      }
+      for (let i = 0; i < value.length; i++) if (value[i] !== 'a') output.push(value.slice(0, i) + 'a' + value.slice(i + 1));
+      return output.filter((x, i, xs) => x !== value && xs.indexOf(x) === i);
+    },
+  };
+}
+
+
+function genDate(): Gen<Date> {
+  return {
+    generate: random => new Date(Math.floor(random() * 2e12)),
+    shrink: value => value.valueOf() === 0 ? [] : [new Date(0), new Date(Math.trunc(value.valueOf() / 2))],
+  };
+}
+
+
+function genArray<A>(gen: Gen<A>): Gen<A[]> {
+  return {
+    generate: random => {
+      const output: A[] = [];
+      const length = Math.floor(random() * 4);
+      for (let i = 0; i < length; i++) output.push(gen.generate(random));
+      return output;
+    },
+    shrink: value => {
+      const output: A[][] = value.length ? [[]] : [];
+      value.forEach((x, i) => output.push([...value.slice(0, i), ...value.slice(i + 1)]));
+      value.forEach((x, i) => gen.shrink(x).forEach(y => output.push([...value.slice(0, i), y, ...value.slice(i + 1)])));
+      return output;
+    },
+  };
+}
+
+
+// Values of opaque adapters are obtained by applying random strings
+function genByTrial<A>(adapter: Adapter<A, any>): Gen<A> {
+  const strings = genString(0);
+  const numbers = genInteger(-Infinity);
+  return {
+    generate: random => {
+      for (let i = 0; i < 100; i++) {
+        const input = i % 2 ? strings.generate(random) : [numbers.generate(random), numbers.generate(random)].slice(0, 1 + Math.floor(random() * 2)).join(',');
+        const result = adapter.apply(input);
+        if (result instanceof Some) return result.value;
+      }
+      throw new Error(`genAdapter: cannot find values for the adapter, provide a generator in 'generators'`);
+    },
+    shrink: () => [],
+  };
+}
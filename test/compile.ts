@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { test } from './harness';
+
+
+const parser = r.oneOf(
+  r.tag('Home'),
+  r.tag('Category').path('/shop').merge(r.segment('category', r.literals(['Books', 'music']))),
+  r.tag('Item').path('/shop/item').segment('id', r.nat),
+  r.tag('Search').path('/shop').segment('query', r.nestring),
+  r.tag('Files').path('/files').rest('path', r.string),
+  r.tag('Cars').path('/cars').matrix({ color: r.string.withDefault('any') }).path('/models'),
+  r.tag('Priority').path('/shop/item').rest('path', r.string).priority(1),
+);
+
+const urls = [
+  '/', '/shop', '/shop/Books', '/shop/books', '/SHOP/MUSIC/', '/shop/item/42', '/Shop/Item/42',
+  '/shop/toys', '/shop/item', '/files', '/files/a/b/c.txt', '/FILES/A', '/cars/models',
+  '/cars;color=red/models', '/CARS;color=red/Models', '/cars/red/models', '/unknown',
+];
+
+const options = [
+  0x0,
+  r.ParseOptions.CaseInsensitive,
+  r.ParseOptions.Ranked,
+  r.ParseOptions.CaseInsensitive | r.ParseOptions.Ranked,
+  r.ParseOptions.Strict | r.ParseOptions.NormalizeUnicode,
+];
+
+
+test('compile gives the same results as the interpreted parser', () => {
+  const compiled = r.compile(parser);
+  for (const option of options) for (const url of urls) {
+    assert.deepStrictEqual(compiled.parse(url, option), parser.parse(url, option), `parse ${url} with ${option}`);
+    assert.deepStrictEqual(compiled.parseAll(url, option), parser.parseAll(url, option), `parseAll ${url} with ${option}`);
+  }
+  assert.strictEqual(compiled.print({ tag: 'Cars', color: 'red' }), parser.print({ tag: 'Cars', color: 'red' }));
+});
+
+
+test('compile selects alternatives by literals and folds their case', () => {
+  const compiled = r.compile(parser);
+  assert.deepStrictEqual(compiled.parse('/shop/Books'), { tag: 'Category', category: 'Books' });
+  assert.deepStrictEqual(compiled.parse('/shop/books'), { tag: 'Search', query: 'books' });
+  assert.deepStrictEqual(compiled.parse('/SHOP/books', r.ParseOptions.CaseInsensitive), { tag: 'Category', category: 'Books' });
+  assert.deepStrictEqual(compiled.parse('/shop/item/42', r.ParseOptions.Ranked), { tag: 'Priority', path: '42' });
+});
@@ -0,0 +1,20 @@
+// Tests are registered with `test` and run one by one with `run`,
+// the process exits with non-zero code if any of them fails
+const tests: Array<[string, () => void|Promise<void>]> = [];
+
+
+export function test(name: string, body: () => void|Promise<void>): void {
+  tests.push([name, body]);
+}
+
+
+export function run(): Promise<void> {
+  let failed = 0;
+  const step = (promise: Promise<void>, [name, body]: [string, () => void|Promise<void>]) => promise
+    .then(body)
+    .then(() => console.log(`ok ${name}`), err => { failed++; console.error(`not ok ${name}\n`, err); });
+  return tests.reduce(step, Promise.resolve()).then(() => {
+    console.log(`${tests.length - failed} passed, ${failed} failed`);
+    if (failed) process.exit(1);
+  });
+}
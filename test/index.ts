@@ -0,0 +1,12 @@
+import { run } from './harness';
+import './parser';
+import './testing';
+import './server';
+import './router';
+import './loader';
+import './sitemap';
+import './compile';
+import './patterns';
+
+
+run();
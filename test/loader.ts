@@ -0,0 +1,25 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { test } from './harness';
+
+
+const loadItem = (route: { id: number }) => Promise.resolve(`item ${route.id}`);
+
+const parser = r.oneOf(
+  r.tag('Shop').path('/shop'),
+  r.tag('Item').path('/item').segment('id', r.nat).extra({ loader: loadItem }),
+);
+
+
+test('createLoader runs loaders declared on the routes and in the map', () => {
+  const loader = r.createLoader(parser, { Shop: () => Promise.resolve('shop') });
+  return loader.load(parser.parse('/item/42')!)
+    .then(() => assert.strictEqual(loader.state().loaded!.data, 'item 42'))
+    .then(() => loader.load(parser.parse('/shop')!))
+    .then(() => assert.strictEqual(loader.state().loaded!.data, 'shop'));
+});
+
+
+test('createLoader throws for tags unknown to the parser', () => {
+  assert.throws(() => r.createLoader(parser, { Cart: () => Promise.resolve('cart') } as any), /unknown tag 'Cart'/);
+});
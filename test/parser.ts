@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { test } from './harness';
+
+
+test('rest captures the remaining path segments', () => {
+  const parser = r.path('/files').rest('filePath', r.string);
+  assert.deepStrictEqual(parser.parse('/files/a/b/c.txt'), { filePath: 'a/b/c.txt' });
+  assert.deepStrictEqual(parser.parse('/files'), { filePath: '' });
+  assert.strictEqual(parser.print({ filePath: 'docs/readme.md' }), 'files/docs/readme.md');
+});
+
+test('optionalSegment falls back to the default and omits it when printing', () => {
+  const parser = r.path('/blog').optionalSegment('category', r.literals('art', 'science').withDefault('all')).path('/posts');
+  assert.deepStrictEqual(parser.parse('/blog/posts'), { category: 'all' });
+  assert.deepStrictEqual(parser.parse('/blog/art/posts'), { category: 'art' });
+  assert.strictEqual(parser.parse('/blog/music/posts'), null);
+  assert.strictEqual(parser.print({ category: 'all' }), 'blog/posts');
+  assert.strictEqual(parser.print({ category: 'science' }), 'blog/science/posts');
+});
+
+test('fragment is parsed from and printed to the hash of the url', () => {
+  const parser = r.path('/docs').segment('page', r.nestring).fragment('section', r.string.withDefault(''));
+  assert.deepStrictEqual(parser.parse('/docs/install#linux'), { page: 'install', section: 'linux' });
+  assert.deepStrictEqual(parser.parse('/docs/install?x=1#a%20b'), { page: 'install', section: 'a b' });
+  assert.deepStrictEqual(parser.parse('/docs/install'), { page: 'install', section: '' });
+  assert.strictEqual(parser.print({ page: 'install', section: 'macos' }), 'docs/install#macos');
+  assert.strictEqual(parser.print({ page: 'install', section: '' }), 'docs/install');
+});
+
+test('repeated collects all values of a query key', () => {
+  const parser = r.path('/posts').params({ tags: r.repeated(r.nestring) });
+  assert.deepStrictEqual(parser.parse('/posts?tags=art&tags=music'), { tags: ['art', 'music'] });
+  assert.deepStrictEqual(parser.parse('/posts'), { tags: [] });
+  assert.strictEqual(parser.print({ tags: ['art', 'music'] }), 'posts?tags=art&tags=music');
+  assert.strictEqual(parser.print({ tags: [] }), 'posts');
+});
+
+test('group reads and writes bracketed query keys', () => {
+  const parser = r.path('/users').params({ filter: r.group({ name: r.string.withDefault(''), age: r.nat.withDefault(0) }) });
+  assert.deepStrictEqual(parser.parse('/users?filter[name]=bob&filter[age]=3'), { filter: { name: 'bob', age: 3 } });
+  assert.deepStrictEqual(parser.parse('/users'), { filter: { name: '', age: 0 } });
+  assert.deepStrictEqual(parser.parse('/users?filter[age]=x'), { filter: { name: '', age: 0 } });
+  assert.strictEqual(r.path('/users').params({ filter: r.group({ age: r.nat }) }).parse('/users?filter[age]=x'), null);
+  assert.strictEqual(parser.print({ filter: { name: 'bob', age: 0 } }), 'users?filter[name]=bob');
+  assert.strictEqual(parser.print({}), 'users');
+});
+
+test('Strict rejects unknown query parameters', () => {
+  const parser = r.path('/shop').params({ page: r.nat.withDefault(1), filter: r.group({ q: r.string.withDefault('') }) });
+  assert.deepStrictEqual(parser.parse('/shop?pgae=2'), { page: 1, filter: { q: '' } });
+  assert.strictEqual(parser.parse('/shop?pgae=2', r.ParseOptions.Strict), null);
+  assert.strictEqual(parser.parse('/shop?filter[x]=1', r.ParseOptions.Strict), null);
+  assert.deepStrictEqual(parser.parse('/shop?page=2&filter[q]=a', r.ParseOptions.Strict), { page: 2, filter: { q: 'a' } });
+});
+
+test('canonicalize prints the parsed url back', () => {
+  const parser = r.path('/shop').params({ page: r.nat.withDefault(1), q: r.string.withDefault('') });
+  assert.deepStrictEqual(parser.canonicalize('/shop//?q=apples&page=1'), { route: { page: 1, q: 'apples' }, canonicalUrl: 'shop?q=apples', isCanonical: false });
+  assert.deepStrictEqual(parser.canonicalize('/shop?q=apples'), { route: { page: 1, q: 'apples' }, canonicalUrl: 'shop?q=apples', isCanonical: true });
+  assert.strictEqual(parser.canonicalize('/cart'), null);
+});
+
+test('CaseInsensitive and NormalizeUnicode relax matching of paths and literals', () => {
+  const parser = r.path('/café').merge(r.segment('category', r.literals(['Books', 'Music'])));
+  assert.strictEqual(parser.parse('/CAFÉ/books'), null);
+  assert.deepStrictEqual(parser.parse('/CAFÉ/books/', r.ParseOptions.CaseInsensitive), { category: 'Books' });
+  assert.strictEqual(parser.parse('/café/Books'), null);
+  assert.deepStrictEqual(parser.parse('/café/Books', r.ParseOptions.NormalizeUnicode), { category: 'Books' });
+  assert.strictEqual(parser.print({ category: 'Books' }), 'caf%C3%A9/Books');
+});
+
+test('matrix parameters are read from the preceding segment', () => {
+  const parser = r.path('/cars').matrix({ color: r.string.withDefault('any'), year: r.nat.withDefault(0) }).path('/models');
+  assert.deepStrictEqual(parser.parse('/cars;color=red;year=2012/models'), { color: 'red', year: 2012 });
+  assert.deepStrictEqual(parser.parse('/cars/models'), { color: 'any', year: 0 });
+  assert.deepStrictEqual(parser.parse('/cars;year=x/models'), { color: 'any', year: 0 });
+  assert.strictEqual(r.path('/cars').matrix({ year: r.nat }).parse('/cars;year=x'), null);
+  assert.strictEqual(parser.parse('/cars;size=big/models', r.ParseOptions.Strict), null);
+  assert.strictEqual(parser.print({ color: 'blue', year: 0 }), 'cars;color=blue/models');
+});
+
+test('route template declares segments and query parameters', () => {
+  const parser = r.tag('Blog').merge(r.route`/blog/${['category', r.nestring]}?page=${['page', r.nat.withDefault(1)]}`);
+  assert.deepStrictEqual(parser.parse('/blog/art?page=2'), { tag: 'Blog', category: 'art', page: 2 });
+  assert.deepStrictEqual(parser.parse('/blog/art'), { tag: 'Blog', category: 'art', page: 1 });
+  assert.strictEqual(parser.print({ tag: 'Blog', category: 'science' }), 'blog/science');
+  assert.strictEqual(parser.print({ tag: 'Blog', category: 'science', page: 3 }), 'blog/science?page=3');
+});
+
+test('explain reports the furthest failure of each alternative', () => {
+  const parser = r.oneOf(
+    r.tag('Shop').path('/shop'),
+    r.tag('Item').path('/shop/item').segment('id', r.nat),
+  );
+  assert.deepStrictEqual(parser.explain('/shop/item/abc'), [
+    { tag: 'Shop', matched: false, idx: 1, failure: { tag: 'UnconsumedSegments', segments: ['item', 'abc'] } },
+    { tag: 'Item', matched: false, idx: 2, failure: { tag: 'SegmentRejected', key: 'id', value: 'abc' } },
+  ]);
+  assert.deepStrictEqual(parser.explain('/shop').map(x => x.matched), [true, false]);
+});
+
+test('host, scheme and port parse and print absolute urls', () => {
+  const tenant = r.host('{tenant}.example.com', { tenant: r.nestring }).path('/dashboard');
+  assert.deepStrictEqual(tenant.parse('https://acme.example.com/dashboard'), { tenant: 'acme' });
+  assert.deepStrictEqual(tenant.parse('//acme.example.com/dashboard'), { tenant: 'acme' });
+  assert.strictEqual(tenant.parse('/dashboard'), null);
+  assert.strictEqual(tenant.print({ tenant: 'globex' }), '//globex.example.com/dashboard');
+  const api = r.scheme('scheme', r.literals(['http', 'https'])).host('localhost').port('port', r.nat.withDefault(80)).path('/api');
+  assert.deepStrictEqual(api.parse('http://localhost:8080/api'), { scheme: 'http', port: 8080 });
+  assert.strictEqual(api.parse('ftp://localhost/api'), null);
+  assert.strictEqual(api.print({ scheme: 'https', port: 80 }), 'https://localhost/api');
+});
+
+test('mount puts the parser under a base path', () => {
+  const mounted = r.oneOf(r.tag('Home'), r.tag('Shop').path('/shop')).mount('/app');
+  assert.deepStrictEqual(mounted.parse('/app/shop'), { tag: 'Shop' });
+  assert.deepStrictEqual(mounted.parse('/app'), { tag: 'Home' });
+  assert.strictEqual(mounted.parse('/shop'), null);
+  assert.strictEqual(mounted.print({ tag: 'Home' }), 'app');
+  let base = '/v1';
+  const dynamic = r.path('/items').mount(() => base);
+  base = '/v2';
+  assert.strictEqual(dynamic.print({}), 'v2/items');
+});
+
+test('lint finds shadowed, ambiguous and duplicate routes', () => {
+  const parser = r.oneOf(
+    r.tag('Item').path('/shop').segment('id', r.nestring),
+    r.tag('Sale').path('/shop').segment('id', r.nat),
+    r.tag('Search').path('/search').segment('q', r.nestring).params({ q: r.string }),
+  );
+  assert.deepStrictEqual(r.lint(parser), [{ tag: 'KeyCollision', route: 'Search', key: 'q' }, { tag: 'Shadowed', route: 'Sale', by: 'Item' }]);
+  assert.deepStrictEqual(r.lint(r.oneOf(r.tag('A').path('/a'), r.tag('A').path('/b'))), [{ tag: 'DuplicateTag', route: 'A' }]);
+  assert.deepStrictEqual(r.lint(r.oneOf(r.tag('A').path('/a'), r.tag('B').path('/b'))), []);
+});
+
+test('Ranked prefers static segments, then literals, then captures, then rest', () => {
+  const parser = r.oneOf(
+    r.tag('Files').path('/shop').rest('path', r.string),
+    r.tag('Item').path('/shop').segment('id', r.nestring),
+    r.tag('Category').path('/shop').merge(r.segment('category', r.literals(['Books', 'Music']))),
+    r.tag('New').path('/shop/new'),
+  );
+  assert.deepStrictEqual(parser.parse('/shop/42'), { tag: 'Files', path: '42' });
+  assert.deepStrictEqual(parser.parse('/shop/new', r.ParseOptions.Ranked), { tag: 'New' });
+  assert.deepStrictEqual(parser.parse('/shop/Books', r.ParseOptions.Ranked), { tag: 'Category', category: 'Books' });
+  assert.deepStrictEqual(parser.parse('/shop/42', r.ParseOptions.Ranked), { tag: 'Item', id: '42' });
+  assert.deepStrictEqual(parser.parse('/shop/a/b', r.ParseOptions.Ranked), { tag: 'Files', path: 'a/b' });
+  const prioritized = r.oneOf(
+    r.tag('Item').path('/shop').segment('id', r.nestring),
+    r.tag('Files').path('/shop').rest('path', r.string).priority(1),
+  );
+  assert.deepStrictEqual(prioritized.parse('/shop/42', r.ParseOptions.Ranked), { tag: 'Files', path: '42' });
+});
+
+test('printSafe rejects routes that would not parse back', () => {
+  const parser = r.oneOf(
+    r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1) }),
+    r.tag('Item').path('/shop/item').segment('id', r.nestring),
+  );
+  assert.deepStrictEqual(parser.printSafe({ tag: 'Item', id: '42' }), { tag: 'Printed', url: 'shop/item/42' });
+  assert.deepStrictEqual(parser.printSafe({ tag: 'Item', id: '' }), { tag: 'Rejected', failure: { tag: 'ValueRejected', key: 'id', value: '', printed: '' } });
+  assert.deepStrictEqual(parser.printSafe({ tag: 'Shop', page: 1.5 }), { tag: 'Rejected', failure: { tag: 'ValueRejected', key: 'page', value: 1.5, printed: ['1.5'] } });
+  assert.deepStrictEqual(parser.printSafe({ tag: 'Blog' } as any), { tag: 'Rejected', failure: { tag: 'UnknownTag', value: 'Blog' } });
+  assert.deepStrictEqual(parser.printSafe({ tag: 'Item' } as any), { tag: 'Rejected', failure: { tag: 'MissingField', key: 'id' } });
+});
+
+test('ancestors and isActive follow the structure of the urls', () => {
+  const parser = r.oneOf(
+    r.tag('Users').path('/users'),
+    r.tag('User').path('/users').segment('id', r.nat),
+    r.tag('UserPosts').path('/users').segment('id', r.nat).path('/posts'),
+  );
+  assert.deepStrictEqual(parser.ancestors({ tag: 'UserPosts', id: 1 }), [{ tag: 'User', id: 1 }, { tag: 'Users' }]);
+  assert.deepStrictEqual(parser.ancestors({ tag: 'Users' }), []);
+  assert.strictEqual(parser.isAncestor({ tag: 'User', id: 1 }, { tag: 'UserPosts', id: 1 }), true);
+  assert.strictEqual(parser.isAncestor({ tag: 'User', id: 2 }, { tag: 'UserPosts', id: 1 }), false);
+  assert.strictEqual(parser.isActive({ tag: 'User', id: 1 }, { tag: 'Users' }), true);
+  assert.strictEqual(parser.isActive({ tag: 'User', id: 1 }, { tag: 'Users' }, { exact: true }), false);
+  assert.strictEqual(parser.isActive({ tag: 'Users' }, { tag: 'Users' }, { exact: true }), true);
+});
@@ -0,0 +1,22 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { test } from './harness';
+
+
+test('toPatterns exports segments, literals and rest in both dialects', () => {
+  const parser = r.oneOf(
+    r.tag('Home'),
+    r.tag('Category').path('/category').segment('slug', r.nestring).params({ page: r.nat.withDefault(1) }),
+    r.tag('Blog').path('/blog').merge(r.segment('lang', r.literals(['en', 'fr']))).rest('path', r.string),
+    r.tag('Docs').host('{tenant}.example.com', { tenant: r.nestring }).path('/docs').fragment('section', r.string),
+  );
+  const patterns = r.toPatterns(parser);
+  assert.deepStrictEqual(patterns.map(x => x.pattern), ['/', '/category/:slug', '/blog/:lang(en|fr)/:path*', '/docs']);
+  assert.deepStrictEqual(patterns[1].query, [{ name: 'page', required: false, repeated: false }]);
+  assert.deepStrictEqual(r.toPatterns(parser, 'urlpattern')[3].init, { pathname: '/docs', hostname: ':tenant.example.com', hash: ':section' });
+});
+
+
+test('toPatterns throws for parsers without a pattern syntax', () => {
+  assert.throws(() => r.toPatterns(r.path('/cars').matrix({ color: r.string })), /Matrix/);
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { test } from './harness';
+
+
+const parser = r.oneOf(
+  r.tag('Shop').path('/shop'),
+  r.tag('Item').path('/item').segment('id', r.nat),
+  r.tag('NotFound').path('/404'),
+);
+
+
+test('createRouter keeps urls of the memory history in the same shape', () => {
+  const history = r.createMemoryHistory('shop');
+  const router = r.createRouter(parser, { fallback: { tag: 'NotFound' }, history, mode: 'path' });
+  return router.navigate({ tag: 'Item', id: 42 }).then(() => {
+    assert.deepStrictEqual(history.entries(), ['/shop', '/item/42']);
+    assert.strictEqual(router.href({ tag: 'Item', id: 1 }), '/item/1');
+    assert.strictEqual(r.createRouter(parser, { fallback: { tag: 'NotFound' }, history }).href({ tag: 'Shop' }), '#/shop');
+  });
+});
+
+
+test('createRouter moves back to the entry of the current url when a guard cancels the back button', () => {
+  const history = r.createMemoryHistory('/shop');
+  const router = r.createRouter(parser, { fallback: { tag: 'NotFound' }, history });
+  return router.navigate({ tag: 'Item', id: 42 }).then(() => {
+    router.beforeLeave(() => false);
+    history.back();
+    assert.deepStrictEqual(router.current(), { tag: 'Item', id: 42 });
+    assert.deepStrictEqual(history.entries(), ['/shop', '/item/42']);
+    assert.strictEqual(history.index(), 1);
+  });
+});
+
+
+test('createRouter reports errors of the back button to onError', () => {
+  const errors: unknown[] = [];
+  const history = r.createMemoryHistory('/shop');
+  const router = r.createRouter(parser, { fallback: { tag: 'NotFound' }, history, onError: err => errors.push(err) });
+  return router.navigate({ tag: 'Item', id: 42 }).then(() => {
+    router.beforeLeave(() => { throw new Error('guard'); });
+    history.back();
+    return Promise.resolve();
+  }).then(() => {
+    assert.deepStrictEqual(errors.map(x => (x as Error).message), ['guard']);
+    assert.deepStrictEqual(router.current(), { tag: 'Item', id: 42 });
+    assert.strictEqual(history.index(), 1);
+  });
+});
+
+
+test('createRouter cancels the pending transition when navigating to the current url', () => {
+  const history = r.createMemoryHistory('/shop');
+  const router = r.createRouter(parser, { fallback: { tag: 'NotFound' }, history });
+  router.beforeEnter(() => Promise.resolve(true));
+  return Promise.all([router.navigate({ tag: 'Item', id: 1 }), router.navigate({ tag: 'Shop' })]).then(results => {
+    assert.deepStrictEqual(results, [false, true]);
+    assert.deepStrictEqual(router.current(), { tag: 'Shop' });
+    assert.deepStrictEqual(history.entries(), ['/shop']);
+  });
+});
+
+
+test('createRouter returns to the entry of the current url when navigating there during a pending back', () => {
+  const history = r.createMemoryHistory('/shop');
+  const router = r.createRouter(parser, { fallback: { tag: 'NotFound' }, history });
+  return router.navigate({ tag: 'Item', id: 42 }).then(() => {
+    router.beforeEnter(() => new Promise<boolean>(resolve => setTimeout(() => resolve(true), 10)));
+    history.back();
+    return router.navigate({ tag: 'Item', id: 42 });
+  }).then(result => new Promise(resolve => setTimeout(resolve, 20)).then(() => {
+    assert.strictEqual(result, true);
+    assert.deepStrictEqual(router.current(), { tag: 'Item', id: 42 });
+    assert.deepStrictEqual(history.entries(), ['/shop', '/item/42']);
+    assert.strictEqual(history.index(), 1);
+  }));
+});
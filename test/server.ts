@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as r from '../src';
+import { test } from './harness';
+
+
+const parser = r.oneOf(
+  r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1) }),
+  r.tag('Item').path('/shop/item').segment('id', r.nat),
+  r.tag('Broken').path('/broken'),
+);
+
+
+const handler = r.createHandler(parser, {
+  Shop: (route, req, res) => res.end(`page ${route.page}`),
+  Item: (route, req: http.IncomingMessage, res: http.ServerResponse) => { res.setHeader('X-Method', req.method || ''); res.end(`item ${route.id}`); },
+  Broken: () => Promise.reject(new Error('broken')),
+});
+
+
+test('createHandler dispatches requests of a local server', () => withServer(handler, get => get('/shop?page=2')
+  .then(x => assert.deepStrictEqual([x.status, x.body], [200, 'page 2']))
+  .then(() => get('/shop/item/42'))
+  .then(x => assert.deepStrictEqual([x.status, x.body, x.method], [200, 'item 42', 'GET']))
+  .then(() => get('/nope'))
+  .then(x => assert.deepStrictEqual([x.status, x.body], [404, 'Not Found']))
+  .then(() => get('/broken'))
+  .then(x => assert.deepStrictEqual([x.status, x.body], [500, '']))
+  .then(() => get('/shop/item/%E0%A4%A'))
+  .then(x => assert.deepStrictEqual([x.status, x.body], [400, 'Bad Request']))
+  .then(() => get('/shop?page=%'))
+  .then(x => assert.deepStrictEqual([x.status, x.body], [400, 'Bad Request']))));
+
+
+test('createHandler passes unknown urls and errors to next', () => {
+  const calls: any[] = [];
+  const middleware = (req: http.IncomingMessage, res: http.ServerResponse) => handler(req, res, err => { calls.push(err); res.end(); });
+  return withServer(middleware, get => get('/nope').then(() => get('/broken')).then(() => get('/shop?page=%')))
+    .then(() => assert.deepStrictEqual(calls.map(x => x && x.name), [undefined, 'Error', 'URIError']));
+});
+
+
+interface Response {
+  status: number;
+  body: string;
+  method: string|undefined;
+}
+
+
+// Run `body` against a server listening on a random port
+function withServer(listener: (req: http.IncomingMessage, res: http.ServerResponse) => void, body: (get: (path: string) => Promise<Response>) => Promise<unknown>): Promise<void> {
+  const server = http.createServer(listener);
+  const close = () => new Promise<void>(resolve => server.close(() => resolve()));
+  return new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve)).then(() => {
+    const { port } = server.address() as AddressInfo;
+    const get = (path: string) => new Promise<Response>((resolve, reject) => {
+      http.get({ port, path, host: '127.0.0.1' }, res => {
+        let data = '';
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode || 0, body: data, method: res.headers['x-method'] as string|undefined }));
+      }).on('error', reject);
+    });
+    return body(get).then(close, err => close().then(() => Promise.reject(err)));
+  });
+}
@@ -0,0 +1,31 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { test } from './harness';
+
+
+test('enumerate includes the default value of optional segments', () => {
+  const parser = r.path('/blog').optionalSegment('category', r.literals('art', 'science').withDefault('all'));
+  assert.deepStrictEqual(r.enumerate(parser), ['blog/art', 'blog/science', 'blog']);
+});
+
+
+test('sitemap prefixes protocol-relative urls with the scheme of baseUrl', () => {
+  const parser = r.oneOf(
+    r.tag('Home'),
+    r.tag('Docs').host('a.ex.com').path('/d'),
+  );
+  const locs = r.sitemap(parser, { baseUrl: 'https://example.com/' }).match(/<loc>[^<]*<\/loc>/g);
+  assert.deepStrictEqual(locs, ['<loc>https://example.com/</loc>', '<loc>https://a.ex.com/d</loc>']);
+});
+
+
+test('enumerate lists the urls of finite adapters and providers', () => {
+  const parser = r.oneOf(
+    r.tag('Home'),
+    r.tag('Blog').path('/blog').merge(r.segment('category', r.literals(['art', 'science']))),
+    r.tag('Product').path('/product').segment('id', r.nat),
+    r.tag('Search').path('/search').params({ q: r.string.withDefault('') }),
+  );
+  assert.deepStrictEqual(r.enumerate(parser, { id: [1, 2] }), ['', 'blog/art', 'blog/science', 'product/1', 'product/2', 'search']);
+  assert.throws(() => r.enumerate(parser), /'id'/);
+});
@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as r from '../src';
+import { checkRoundTrip, genAdapter } from '../src/testing';
+import { test } from './harness';
+
+
+test('checkRoundTrip finds the simplest counterexample', () => {
+  const parser = r.oneOf(
+    r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1) }),
+    r.tag('Item').path('/shop').segment('id', r.nestring),
+    r.tag('Files').path('/files').rest('path', r.string),
+  );
+  assert.deepStrictEqual(checkRoundTrip(parser), {
+    law: 'ParseAfterPrint', route: { tag: 'Files', path: '/' }, url: 'files', parsed: { tag: 'Files', path: '' }, reprinted: null,
+  });
+});
+
+
+test('checkRoundTrip accepts invertible parsers', () => {
+  const parser = r.oneOf(
+    r.tag('Shop').path('/shop').params({ page: r.nat.withDefault(1), tags: r.array(r.literals(['x', 'y'])) }),
+    r.tag('Item').path('/shop/item').segment('id', r.nat),
+  );
+  assert.strictEqual(checkRoundTrip(parser, { seed: 1 }), null);
+});
+
+
+test('genAdapter generates elements of array from the inner adapter', () => {
+  const adapter = r.array(r.literals(['x', 'y']));
+  const gen = genAdapter(adapter);
+  let seed = 1;
+  const random = () => (seed = seed * 16807 % 2147483647) / 2147483647;
+  const values = Array.from({ length: 50 }, () => gen.generate(random));
+  assert.ok(values.some(xs => xs.length > 0));
+  for (const xs of values) {
+    assert.ok(xs.every(x => x === 'x' || x === 'y'));
+    assert.deepStrictEqual(adapter.apply(adapter.unapply(xs)).fold(null, x => x), xs);
+  }
+});